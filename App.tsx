@@ -1,61 +1,171 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Message, ChatSession, Attachment } from './types';
-import { generateContentStream } from './services/gemini';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  Message, ChatSession, Attachment, ProviderSettings, ExportFormat, ImportStrategy, Persona,
+  AppSettings, GeminiConfig, SettingsScope, ContextRecord, ContextSettings, ContextStatus,
+  TokenUsage, UsageEntry, PriceEntry, DailyBudget, ToolStep, MessagePart, CodeBlockSettings, SessionMeta, StreamEvent,
+  FinishReason, SafetyRating, Folder, UsageListener
+} from './types';
+import { DEFAULT_APP_SETTINGS, getProvider, resolveGenerationConfig, applyConfigPatch, streamWithRetry } from './services/providers';
+import { ERROR_DETAILS, toProviderError } from './services/errors';
+import { getActivePath, getPathTo, getSiblings, selectBranch, upsertMessage, normalizeSession, toSessionMeta } from './services/messageTree';
 // Dikkat: Artık tekil fonksiyonları import ediyoruz
-import { loadSessionsFromDB, saveSessionToDB, deleteSessionFromDB } from './services/storage';
+import {
+  loadSessionIndex, loadSessionMeta, loadSessionFromDB, saveSessionMeta, saveSessionMessages, saveSessionToDB, deleteSessionFromDB,
+  StaleWriteError,
+  loadPersonasFromDB, savePersonaToDB, deletePersonaFromDB, loadFoldersFromDB, saveFolderToDB, deleteFolderFromDB,
+  loadSettingsFromDB, saveSettingsToDB, loadUsageLog, saveUsageEntry, collectAttachmentGarbage
+} from './services/storage';
+import { addTokenUsage, computeCost, getBudgetStatus } from './services/usage';
+import { TOOLS } from './services/tools';
+import { appendText, getMessageParts, getPartsText, toTextParts } from './services/parts';
+import { CONTINUE_PROMPT } from './services/history';
+import { subscribeToChanges, holdStreamLock, isStreamingElsewhere } from './services/tabSync';
+import { VaultLockedError, getVaultState, onBeforeLock, subscribeToVault } from './services/vault';
+import { DEFAULT_PERSONAS, DEFAULT_PERSONA_ID, renderSystemPrompt, resolvePersona } from './services/systemPrompt';
+import { planContext, summarizeTurns, withSummary, estimateContextTokens, estimateMessageTokens } from './services/context';
+import { getPlaceholderTitle, canGenerateTitle, needsGeneratedTitle, generateSessionTitle } from './services/titles';
+import { parseBackup, exportSessions, asCopy, mergeSessions } from './services/backup';
 import ChatMessage from './components/ChatMessage';
 import InputArea from './components/InputArea';
 import SettingsPanel from './components/SettingsPanel';
 import Sidebar from './components/Sidebar';
+import ImportDialog from './components/ImportDialog';
+import PersonaManager from './components/PersonaManager';
+import UsageStats from './components/UsageStats';
+import EncryptionSettings from './components/EncryptionSettings';
+
+// Akan cevabın IndexedDB'ye ara kayıt aralığı (sekme kapanırsa en fazla bu kadarı kaybolur)
+const CHECKPOINT_INTERVAL_MS = 2000;
 
 const App: React.FC = () => {
-  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  // Tüm oturumların mesajsız kayıtları (kenar çubuğu); mesajlar sadece açılan sohbet için yüklenir
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [loadedSessions, setLoadedSessions] = useState<Record<string, ChatSession>>({});
   const [isStorageInitialized, setIsStorageInitialized] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [thinkingBudget, setThinkingBudget] = useState(0);
+  // Genel varsayılanlar (IndexedDB); sohbetler kendi providerSettings/generationConfig değerleriyle bunları ezer
+  const [defaultSettings, setDefaultSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const [settingsScope, setSettingsScope] = useState<SettingsScope>('session');
+  const [personas, setPersonas] = useState<Persona[]>(DEFAULT_PERSONAS);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  // Yeni sohbet için seçilen persona; mevcut sohbetlerde oturumdaki personaId kullanılır
+  const [draftPersonaId, setDraftPersonaId] = useState(DEFAULT_PERSONA_ID);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Akan cevabın son kaydı bitince çözülür (kilitleme bunu bekler)
+  const streamDoneRef = useRef<Promise<void> | null>(null);
+  // Yeni cevap beklenen kullanıcı mesajı; ilk parça gelene kadar eski varyant gizlenir
+  const [pendingReplyTo, setPendingReplyTo] = useState<string | null>(null);
+  // Geçici bir hatadan sonra beklenen yeniden deneme
+  const [retryStatus, setRetryStatus] = useState<Extract<StreamEvent, { type: 'retry' }> | null>(null);
+
+  // Arama sonucundan atlanan mesaj kısa süre vurgulanır
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Çakışan id'ler varsa kullanıcı seçim yapana kadar bekleyen içe aktarma
+  const [pendingImport, setPendingImport] = useState<ChatSession[] | null>(null);
+  // "Tümünü yeniden adlandır" ilerlemesi
+  const [retitleProgress, setRetitleProgress] = useState<{ done: number; total: number } | null>(null);
+  const [usageLog, setUsageLog] = useState<UsageEntry[]>([]);
+  const [isUsageStatsOpen, setIsUsageStatsOpen] = useState(false);
+  const [isEncryptionOpen, setIsEncryptionOpen] = useState(false);
+  const [isEncrypted, setIsEncrypted] = useState(() => getVaultState().enabled);
+
+  // Asenkron işler (akış sonu, başlık üretimi) oturumların en güncel halini buradan okur
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  const loadedSessionsRef = useRef(loadedSessions);
+  loadedSessionsRef.current = loadedSessions;
+  // Cevabı akmakta olan oturum başka sohbete geçilince bellekten atılmaz
+  const streamingSessionIdRef = useRef<string | null>(null);
+
+  const currentSession = currentSessionId ? loadedSessions[currentSessionId] : undefined;
+  // Seçilen sohbetin mesajları veritabanından okunuyor
+  const isSessionLoading = !!currentSessionId && !currentSession;
+  const messages = useMemo(() => {
+    const activePath = currentSession ? getActivePath(currentSession) : [];
+    const pendingIndex = activePath.findIndex(m => m.id === pendingReplyTo);
+    return pendingIndex >= 0 ? activePath.slice(0, pendingIndex + 1) : activePath;
+  }, [currentSession, pendingReplyTo]);
+  const providerSettings = currentSession?.providerSettings || defaultSettings.providerSettings;
+  const currentPersona = resolvePersona(personas, currentSession ? currentSession.personaId : draftPersonaId);
+  const isSessionScope = !!currentSession && settingsScope === 'session';
 
-  const currentSession = sessions.find(s => s.id === currentSessionId);
-  const messages = currentSession ? currentSession.messages : [];
+  // Bir sonraki istekte gönderilecek tahmini bağlam (sınır aşılınca politika devreye girer)
+  const contextTokens = useMemo(
+    () => estimateContextTokens(messages, currentPersona.systemPrompt),
+    [messages, currentPersona]
+  );
+
+  // Gün değişince sınır sıfırlansın diye her render'da hesaplanır (kayıt küçük)
+  const budgetStatus = getBudgetStatus(usageLog, defaultSettings.prices, defaultSettings.budget);
+  const isBudgetBlocked = budgetStatus.level === 'blocked';
+
+  // Son cevap için hangi turların gönderildiği, mesaj bazında
+  const contextStatuses = useMemo(() => {
+    const statuses = new Map<string, ContextStatus>();
+    const record = [...messages].reverse().find(m => m.context)?.context;
+    if (!record) return statuses;
+    record.omittedIds.forEach(id => statuses.set(id, 'omitted'));
+    record.summarizedIds.forEach(id => statuses.set(id, 'summarized'));
+    record.strippedIds.forEach(id => statuses.set(id, 'stripped'));
+    return statuses;
+  }, [messages]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   useEffect(() => {
-    scrollToBottom();
+    if (!highlightedMessageId) scrollToBottom();
   }, [messages, isLoading]);
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, currentSessionId]);
+
   // 1. Uygulama açılışında verileri yükle
   useEffect(() => {
     const initStorage = async () => {
       try {
-        let loadedSessions = await loadSessionsFromDB();
+        let sessionIndex = await loadSessionIndex();
+        setPersonas(await loadPersonasFromDB());
+        setFolders(await loadFoldersFromDB());
+        setDefaultSettings(await loadSettingsFromDB());
+        setUsageLog(await loadUsageLog());
         
         // Migration: Eğer DB boşsa ve LocalStorage varsa kurtar
-        if (loadedSessions.length === 0) {
+        if (sessionIndex.length === 0) {
            const localSessions = localStorage.getItem('gemini_sessions');
            if (localSessions) {
              try {
                const parsed = JSON.parse(localSessions);
                if (Array.isArray(parsed) && parsed.length > 0) {
-                 loadedSessions = parsed;
-                 for (const s of loadedSessions) {
+                 for (const s of parsed.map(normalizeSession)) {
                     await saveSessionToDB(s);
                  }
+                 sessionIndex = await loadSessionIndex();
                }
              } catch (e) { /* ignore */ }
            }
         }
+        // Eski kopya veritabanına taşındıktan (ya da veritabanı zaten doluysa) sonra tarayıcıda açık metin olarak kalmasın
+        localStorage.removeItem('gemini_sessions');
 
-        setSessions(loadedSessions);
+        setSessions(sessionIndex);
+        void collectAttachmentGarbage();
         
-        if (loadedSessions.length > 0) {
-           setCurrentSessionId(loadedSessions[0].id); 
+        // Arşivdeki bir sohbet açılışta açılmaz
+        const firstSession = sessionIndex.find(s => !s.archived);
+        if (firstSession) {
+           await openSession(firstSession.id);
         }
       } catch (error) {
         console.error("Başlatma hatası:", error);
@@ -67,194 +177,854 @@ const App: React.FC = () => {
     initStorage();
   }, []);
 
+  // 2. Diğer sekmelerdeki değişiklikler (kenar çubuğu, başlıklar, mesajlar) canlı yansıtılır
+  useEffect(() => subscribeToChanges(message => {
+    switch (message.type) {
+      case 'session-changed':
+        void refreshSession(message.sessionId);
+        break;
+      case 'session-deleted':
+        removeSession(message.sessionId);
+        break;
+      case 'folders-changed':
+        void loadFoldersFromDB().then(setFolders);
+        break;
+    }
+  }), []);
+
+  useEffect(() => subscribeToVault(vault => setIsEncrypted(vault.enabled)), []);
+
+  // Kilitlenmeden önce akan cevap durdurulur ve anahtarlar daha bellekteyken kaydedilir
+  useEffect(() => onBeforeLock(async () => {
+    abortControllerRef.current?.abort();
+    await streamDoneRef.current;
+  }), []);
+
+  // Kasa kilitlenince uygulama kaldırılır; akan cevap yarıda kesilir (son ara kaydı açılışta kurtarılır)
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Açık sohbet ve cevabı akan sohbet dışındakiler bellekten atılır (tekrar açılınca yeniden okunur)
+  const releaseSessions = (keepId: string | null) => {
+    setLoadedSessions(prev => Object.fromEntries(
+      Object.entries(prev).filter(([id]) => id === keepId || id === streamingSessionIdRef.current)
+    ));
+  };
+
+  /**
+   * Opens a chat; its messages are read from the database unless it is already in memory.
+   * @returns The loaded session, or undefined if it no longer exists.
+   */
+  const openSession = async (id: string): Promise<ChatSession | undefined> => {
+    setCurrentSessionId(id);
+    releaseSessions(id);
+    const loaded = loadedSessionsRef.current[id];
+    if (loaded) return loaded;
+    try {
+      const session = await loadSessionFromDB(id);
+      if (session) {
+        setLoadedSessions(prev => ({ ...prev, [id]: prev[id] || session }));
+        return session;
+      }
+    } catch (error) {
+      console.error("Sohbet yüklenemedi:", error);
+    }
+    setCurrentSessionId(prev => (prev === id ? null : prev));
+    return undefined;
+  };
+
+  // Yüklü değilse veritabanından okunur (dışa aktarma, birleştirme, toplu başlık üretimi)
+  const getFullSession = async (id: string): Promise<ChatSession | undefined> => {
+    return loadedSessionsRef.current[id] || await loadSessionFromDB(id);
+  };
+
   const handleNewChat = () => {
     setCurrentSessionId(null);
+    releaseSessions(null);
     setIsLoading(false);
     setIsSidebarOpen(false);
   };
 
+  const removeSession = (id: string) => {
+    setSessions(prev => prev.filter(s => s.id !== id));
+    setLoadedSessions(prev => {
+      const { [id]: _deleted, ...rest } = prev;
+      return rest;
+    });
+    setCurrentSessionId(prev => (prev === id ? null : prev));
+  };
+
   const handleDeleteSession = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const newSessions = sessions.filter(s => s.id !== id);
-    setSessions(newSessions);
-    
-    if (currentSessionId === id) {
-      setCurrentSessionId(null);
-    }
+    removeSession(id);
     await deleteSessionFromDB(id);
+    await collectAttachmentGarbage();
   };
 
-  const handleRenameSession = async (id: string, newTitle: string) => {
-    let updatedSession: ChatSession | undefined;
-    
-    setSessions(prevSessions => prevSessions.map(session => {
-      if (session.id === id) {
-        updatedSession = { ...session, title: newTitle };
-        return updatedSession;
+  // Başka sekmeden gelen hal alınır; bu sekmede akan cevap ve henüz yazılmamış mesajlar korunur
+  const withLocalMessages = (remote: ChatSession, local: ChatSession): ChatSession => {
+    const streamingId = streamingSessionIdRef.current === remote.id ? local.streamingMessageId : undefined;
+    const remoteIds = new Set(remote.messages.map(m => m.id));
+    const kept = local.messages.filter(m => !remoteIds.has(m.id) || m.id === streamingId);
+    return kept.reduce(upsertMessage, streamingId ? { ...remote, streamingMessageId: streamingId } : remote);
+  };
+
+  // Başka sekmede değişen sohbet veritabanından yeniden okunur (mesajlar sadece sohbet bellekteyse)
+  const refreshSession = async (id: string) => {
+    try {
+      const meta = await loadSessionMeta(id);
+      if (!meta) {
+        removeSession(id);
+        return;
+      }
+      updateSessionIndex(meta);
+      if (!loadedSessionsRef.current[id]) return;
+      const remote = await loadSessionFromDB(id);
+      if (remote) {
+        setLoadedSessions(prev => (prev[id] ? { ...prev, [id]: withLocalMessages(remote, prev[id]) } : prev));
       }
+    } catch (error) {
+      console.error("Sohbet yenilenemedi:", error);
+    }
+  };
+
+  /**
+   * Writes new or changed messages of a session. If another tab saved the session in the meantime,
+   * its latest version is read and the messages are added on top of it, so neither tab loses messages.
+   * @returns The session as it was saved.
+   */
+  const persistMessages = async (session: ChatSession, messages: Message[]): Promise<ChatSession> => {
+    try {
+      await saveSessionMessages(session, messages);
       return session;
-    }));
+    } catch (error) {
+      if (!(error instanceof StaleWriteError)) throw error;
+      const latest = await loadSessionFromDB(session.id);
+      if (!latest) throw error;
+      const merged: ChatSession = { ...messages.reduce(upsertMessage, latest), updatedAt: session.updatedAt };
+      // Kayıttaki akış işareti bu yazmanın cevabına aitse kaldırılır, başka sekmeninkiyse kalır
+      const ownsMarker = messages.some(m => m.id === latest.streamingMessageId);
+      merged.streamingMessageId = session.streamingMessageId ?? (ownsMarker ? undefined : latest.streamingMessageId);
+      updateSessionIndex(merged);
+      setLoadedSessions(prev => (prev[session.id] ? { ...prev, [session.id]: withLocalMessages(merged, prev[session.id]) } : prev));
+      await saveSessionMessages(merged, messages);
+      return merged;
+    }
+  };
 
-    if (updatedSession) {
-        await saveSessionToDB(updatedSession);
+  // Başlık gibi sadece oturum kaydını değiştiren güncellemeler; sohbet yüklü olmasa da çalışır
+  const updateSessionMeta = async (sessionId: string, patch: Partial<SessionMeta>) => {
+    const meta = sessionsRef.current.find(s => s.id === sessionId);
+    if (!meta) return;
+    const loaded = loadedSessionsRef.current[sessionId];
+    const updated: SessionMeta = { ...(loaded ? toSessionMeta(loaded) : meta), ...patch };
+    updateSessionIndex(updated);
+    updateSessionState(sessionId, session => ({ ...session, ...patch }));
+    try {
+      await saveSessionMeta(updated);
+    } catch (error) {
+      if (!(error instanceof StaleWriteError)) throw error;
+      // Başka sekmede değiştiyse aynı değişiklik en son kaydın üstüne uygulanır
+      const latest = await loadSessionMeta(sessionId);
+      if (!latest) return;
+      await saveSessionMeta({ ...latest, ...patch });
+      await refreshSession(sessionId);
+    }
+  };
+
+  const handleRenameSession = async (id: string, newTitle: string) => {
+    await updateSessionMeta(id, { title: newTitle, titleSource: 'user' });
+  };
+
+  // Cevaplar ve arka plan istekleri (başlık, özet) aynı kayda yazılır; günlük bütçeye hepsi sayılır
+  const recordUsage = async (entry: UsageEntry) => {
+    setUsageLog(prev => [...prev, entry]);
+    try {
+      await saveUsageEntry(entry);
+    } catch (error) {
+      console.error("Kullanım kaydı yazılamadı:", error);
     }
   };
 
+  // Arka plan isteğinin kullanımı; model bildirilmediyse ayarlardaki model fiyatlandırılır
+  const backgroundUsageListener = (id: string, sessionId: string, settings: ProviderSettings): UsageListener => (usage, model) => {
+    void recordUsage({
+      id: `${id}-${Date.now()}`,
+      sessionId,
+      model: model || settings.model || getProvider(settings.provider).defaultModel,
+      usage,
+      timestamp: Date.now(),
+    });
+  };
+
+  // Kullanıcının verdiği başlık, üretim sürerken verilmiş olsa bile korunur
+  const applyGeneratedTitle = async (sessionId: string, title: string) => {
+    const latest = sessionsRef.current.find(s => s.id === sessionId);
+    if (!latest || latest.titleSource === 'user') return;
+    await updateSessionMeta(sessionId, { title, titleSource: 'generated' });
+  };
+
+  const generateTitleFor = async (session: ChatSession) => {
+    try {
+      const settings = session.providerSettings || defaultSettings.providerSettings;
+      const title = await generateSessionTitle(session, settings, backgroundUsageListener(`${session.id}-title`, session.id, settings));
+      if (title) await applyGeneratedTitle(session.id, title);
+    } catch (error) {
+      console.error("Başlık üretilemedi:", error);
+    }
+  };
+
+  // Eski sohbetler sırayla (aynı anda tek istek) yeniden adlandırılır; mesajlar sırası gelince okunur
+  const handleRetitleAll = async () => {
+    const targets = sessionsRef.current.filter(s => s.titleSource !== 'user');
+    if (targets.length === 0 || retitleProgress) return;
+    if (!window.confirm(`Generate new titles for up to ${targets.length} chats? Titles you set yourself are kept.`)) return;
+
+    setRetitleProgress({ done: 0, total: targets.length });
+    for (let i = 0; i < targets.length; i++) {
+      try {
+        const session = await getFullSession(targets[i].id);
+        if (session && canGenerateTitle(session)) await generateTitleFor(session);
+      } catch (error) {
+        console.error("Sohbet yüklenemedi:", error);
+      }
+      setRetitleProgress({ done: i + 1, total: targets.length });
+    }
+    setRetitleProgress(null);
+  };
+
+  const handleExportSessions = async (ids: string[], format: ExportFormat) => {
+    try {
+      const selected: ChatSession[] = [];
+      for (const id of ids) {
+        const session = await getFullSession(id);
+        if (session) selected.push(session);
+      }
+      await exportSessions(selected, format);
+    } catch (error: any) {
+      console.error("Dışa aktarma hatası:", error);
+      alert(`Export failed: ${error.message}`);
+    }
+  };
+
+  const applyImport = async (imported: ChatSession[], strategy: ImportStrategy) => {
+    const saved: ChatSession[] = [];
+    for (const session of imported) {
+      const existing = sessionsRef.current.some(s => s.id === session.id) ? await getFullSession(session.id) : undefined;
+      const toSave = !existing
+        ? session
+        : strategy === 'merge' ? mergeSessions(existing, session) : asCopy(session);
+      await saveSessionToDB(toSave);
+      saved.push(toSave);
+    }
+
+    setSessions(prevSessions => {
+      const savedIds = new Set(saved.map(s => s.id));
+      return [...prevSessions.filter(s => !savedIds.has(s.id)), ...saved.map(toSessionMeta)]
+        .sort((a, b) => b.createdAt - a.createdAt);
+    });
+    // Açık bir sohbete birleştirildiyse yeni hali gösterilir
+    setLoadedSessions(prev => {
+      const next = { ...prev };
+      saved.forEach(session => {
+        if (next[session.id]) next[session.id] = session;
+      });
+      return next;
+    });
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = await parseBackup(await file.text());
+      const hasCollisions = imported.some(session => sessions.some(s => s.id === session.id));
+      if (hasCollisions) {
+        setPendingImport(imported);
+      } else {
+        await applyImport(imported, 'keep-both');
+      }
+    } catch (error: any) {
+      console.error("İçe aktarma hatası:", error);
+      alert(`Import failed: ${error.message}`);
+    }
+  };
+
+  // Mesaj dışı değişiklikler (ayarlar, seçili dal): sadece oturum kaydı yazılır
+  const saveCurrentSession = async (updatedSession: ChatSession) => {
+    updateSessionState(updatedSession.id, () => updatedSession);
+    updateSessionIndex(updatedSession);
+    try {
+      await saveSessionMeta(updatedSession);
+    } catch (error) {
+      if (!(error instanceof StaleWriteError)) throw error;
+      await refreshSession(updatedSession.id);
+      alert('This chat was changed in another tab and now shows the latest version. Please apply your change again.');
+    }
+  };
+
+  // Aynı sohbete başka sekmede cevap akıyorsa ikinci cevap başlamadan kullanıcı uyarılır
+  const confirmConcurrentStream = async (sessionId: string): Promise<boolean> => {
+    if (!(await isStreamingElsewhere(sessionId))) return true;
+    return window.confirm('An answer is still streaming into this chat in another tab. Start another answer here anyway?');
+  };
+
+  const saveDefaultSettings = async (settings: AppSettings) => {
+    setDefaultSettings(settings);
+    await saveSettingsToDB(settings);
+  };
+
+  // Ayar panelinin kapsamına göre ya mevcut sohbete ya da genel varsayılanlara yazılır
+  const handleProviderSettingsChange = async (settings: ProviderSettings) => {
+    if (isSessionScope && currentSession) {
+      await saveCurrentSession({ ...currentSession, providerSettings: settings });
+    } else {
+      await saveDefaultSettings({ ...defaultSettings, providerSettings: settings });
+    }
+  };
+
+  const handleGenerationConfigChange = async (patch: Partial<GeminiConfig>) => {
+    if (isSessionScope && currentSession) {
+      await saveCurrentSession({ ...currentSession, generationConfig: applyConfigPatch(currentSession.generationConfig || {}, patch) });
+    } else {
+      await saveDefaultSettings({ ...defaultSettings, generationConfig: applyConfigPatch(defaultSettings.generationConfig, patch) });
+    }
+  };
+
+  const handleContextSettingsChange = async (context: ContextSettings) => {
+    await saveDefaultSettings({ ...defaultSettings, context });
+  };
+
+  const handleCodeBlockSettingsChange = async (codeBlocks: CodeBlockSettings) => {
+    await saveDefaultSettings({ ...defaultSettings, codeBlocks });
+  };
+
+  const handlePricesChange = async (prices: PriceEntry[]) => {
+    await saveDefaultSettings({ ...defaultSettings, prices });
+  };
+
+  const handleBudgetChange = async (budget: DailyBudget) => {
+    await saveDefaultSettings({ ...defaultSettings, budget });
+  };
+
+  const handleResetOverrides = async () => {
+    if (!currentSession) return;
+    await saveCurrentSession({ ...currentSession, generationConfig: undefined });
+  };
+
+  // Personanın varsayılan ayarları sohbet oluşturulurken oturuma override olarak yazılır
+  const handleSelectPersona = (id: string) => {
+    setDraftPersonaId(id);
+  };
+
+  const handleSavePersona = async (persona: Persona) => {
+    setPersonas(prev => {
+      const exists = prev.some(p => p.id === persona.id);
+      return exists ? prev.map(p => (p.id === persona.id ? persona : p)) : [...prev, persona];
+    });
+    await savePersonaToDB(persona);
+  };
+
+  // Silinen personayı kullanan sohbetler varsayılan personaya düşer (resolvePersona)
+  const handleDeletePersona = async (id: string) => {
+    setPersonas(prev => prev.filter(p => p.id !== id));
+    if (draftPersonaId === id) setDraftPersonaId(DEFAULT_PERSONA_ID);
+    await deletePersonaFromDB(id);
+  };
+
+  // Sabitleme, arşivleme, klasöre taşıma ve etiketler sadece oturum kaydını değiştirir
+  const handleOrganizeSession = async (id: string, patch: Partial<Pick<SessionMeta, 'pinned' | 'archived' | 'folderId' | 'tags'>>) => {
+    await updateSessionMeta(id, patch);
+  };
+
+  const handleSaveFolder = async (folder: Folder) => {
+    setFolders(prev => {
+      const exists = prev.some(f => f.id === folder.id);
+      return (exists ? prev.map(f => (f.id === folder.id ? folder : f)) : [...prev, folder])
+        .sort((a, b) => a.name.localeCompare(b.name));
+    });
+    await saveFolderToDB(folder);
+  };
+
+  // Klasör silinince içindeki sohbetler silinmez, klasörsüz kalır
+  const handleDeleteFolder = async (id: string) => {
+    const unfile = <T extends SessionMeta>(session: T): T => {
+      if (session.folderId !== id) return session;
+      const { folderId, ...rest } = session;
+      return rest as T;
+    };
+    setFolders(prev => prev.filter(f => f.id !== id));
+    setSessions(prev => prev.map(unfile));
+    setLoadedSessions(prev => {
+      const next = { ...prev };
+      Object.keys(next).forEach(key => { next[key] = unfile(next[key]); });
+      return next;
+    });
+    await deleteFolderFromDB(id);
+  };
+
   const handleSelectSession = (id: string) => {
-    setCurrentSessionId(id);
+    void openSession(id);
     setIsSidebarOpen(false);
   };
 
+  const handleOpenSearchResult = async (sessionId: string, messageId?: string) => {
+    setIsSidebarOpen(false);
+    const session = await openSession(sessionId);
+    if (!messageId) return;
+
+    // Mesaj seçili dalda değilse onu içeren dala geç (yayın sürerken dal değiştirme)
+    if (session && !isLoading && !getActivePath(session).some(m => m.id === messageId)) {
+      await saveCurrentSession(selectBranch(session, messageId));
+    }
+    setHighlightedMessageId(messageId);
+  };
+
+  // Sadece bellekteki (açılmış) sohbetler güncellenir
+  const updateSessionState = (sessionId: string, updater: (session: ChatSession) => ChatSession) => {
+    setLoadedSessions(prev => (prev[sessionId] ? { ...prev, [sessionId]: updater(prev[sessionId]) } : prev));
+  };
+
+  // Kenar çubuğu listesi kaydedilen oturumun mesajsız kaydıyla güncellenir
+  const updateSessionIndex = (session: SessionMeta) => {
+    const meta = toSessionMeta(session);
+    setSessions(prev => prev.some(s => s.id === meta.id)
+      ? prev.map(s => (s.id === meta.id ? meta : s))
+      : [meta, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+  };
+
+  /**
+   * Streams a new model answer as a child of `userMessage`.
+   * `baseSession` must already contain the user message; the history is the branch above it.
+   * With `continued` (an interrupted answer) the model is asked to go on and its text is appended to that message;
+   * with `replacing` (a failed answer) the new answer takes its place.
+   */
+  const streamModelResponse = async (
+    baseSession: ChatSession,
+    userMessage: Message,
+    { continued, replacing }: { continued?: Message; replacing?: Message } = {}
+  ) => {
+    const activeSessionId = baseSession.id;
+    // Devam isteğinde yarım cevap da geçmişe girer; devam istemi sohbette görünmez
+    const history = continued
+      ? getPathTo(baseSession, continued.id)
+      : getPathTo(baseSession, userMessage.id).slice(0, -1);
+    const promptMessage: Message = continued
+      ? { ...userMessage, text: CONTINUE_PROMPT, parts: toTextParts(CONTINUE_PROMPT), attachments: [] }
+      : userMessage;
+
+    setIsLoading(true);
+    if (!continued) setPendingReplyTo(userMessage.id);
+    streamingSessionIdRef.current = activeSessionId;
+    const releaseStreamLock = holdStreamLock(activeSessionId);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let finishStream = () => {};
+    streamDoneRef.current = new Promise<void>(resolve => { finishStream = resolve; });
+
+    let parts: MessagePart[] = continued ? getMessageParts(continued) : [];
+    let accumulatedThoughts = continued?.thoughts || "";
+    let thinkingStartedAt: number | undefined;
+    let thinkingMs: number | undefined = continued?.thinkingMs;
+    // Bu isteğin kullanımı; devam edilen cevapta mesajdaki toplama eklenir
+    let usage: TokenUsage | undefined;
+    let modelName: string | undefined;
+    let toolSteps: ToolStep[] = continued?.toolSteps || [];
+    let finishReason: FinishReason | undefined;
+    let safetyRatings: SafetyRating[] | undefined;
+    // Araç turundan sonra gelen metin öncekiyle birleşmesin
+    let needsSeparator = false;
+    const aiMessageId = continued?.id ?? replacing?.id ?? (Date.now() + 1).toString();
+    let contextRecord: ContextRecord | undefined;
+
+    // Düşünme süresi cevabın ilk parçası gelince (ya da akış bitince) kesinleşir
+    const finishThinking = () => {
+      if (thinkingStartedAt !== undefined && thinkingMs === undefined) {
+        thinkingMs = Date.now() - thinkingStartedAt;
+      }
+    };
+
+    const buildAiMessage = (fields: Partial<Message> = {}): Message => {
+      const messageUsage = usage && continued?.usage ? addTokenUsage(continued.usage, usage) : usage || continued?.usage;
+      return {
+        id: aiMessageId,
+        role: 'model',
+        text: getPartsText(parts),
+        parts,
+        timestamp: Date.now(),
+        parentId: userMessage.id,
+        context: contextRecord,
+        model: modelName,
+        ...(accumulatedThoughts && { thoughts: accumulatedThoughts, thinkingMs }),
+        ...(messageUsage && { usage: messageUsage }),
+        ...(toolSteps.length > 0 && { toolSteps }),
+        ...(finishReason && { finishReason }),
+        ...(safetyRatings?.length && { safetyRatings }),
+        ...fields,
+      };
+    };
+    // Özet üretilirse oturumla birlikte kaydedilir
+    let sessionToSave = baseSession;
+
+    const showAiMessage = (aiMessage: Message) => {
+      setPendingReplyTo(null);
+      updateSessionState(activeSessionId, session => upsertMessage(session, aiMessage));
+    };
+
+    // Akış sürerken yapılan değişiklikler (yeniden adlandırma, ayarlar) ezilmesin
+    const buildSessionToSave = (aiMessage: Message): ChatSession => {
+      const latest = loadedSessionsRef.current[activeSessionId];
+      const isLatestCurrent = latest?.messages.some(m => m.id === userMessage.id);
+      const { streamingMessageId: _marker, ...session } = upsertMessage(
+        isLatestCurrent ? { ...latest!, contextSummary: sessionToSave.contextSummary } : sessionToSave,
+        aiMessage
+      );
+      return { ...session, updatedAt: Date.now() };
+    };
+
+    // Yarım cevap düzenli aralıklarla yazılır; sekme kapanırsa açılışta kesik olarak işaretlenir
+    // Kayıtlar şifrelenirken yazma gecikebilir: ara kayıtlar sırayla yazılır, son kayıt hepsini bekler
+    let lastCheckpointAt = 0;
+    let pendingCheckpoint: Promise<unknown> = Promise.resolve();
+    let isFinalSaveStarted = false;
+    const checkpoint = () => {
+      if (isFinalSaveStarted || Date.now() - lastCheckpointAt < CHECKPOINT_INTERVAL_MS) return;
+      if (!sessionsRef.current.some(s => s.id === activeSessionId)) return;
+      lastCheckpointAt = Date.now();
+      const aiMessage = buildAiMessage();
+      pendingCheckpoint = pendingCheckpoint
+        .then(() => persistMessages({ ...buildSessionToSave(aiMessage), streamingMessageId: aiMessageId }, [aiMessage]))
+        .catch(error => console.error("Ara kayıt hatası:", error));
+    };
+
+    // 4. BİTİŞ - SON HALİNİ DB'YE KAYDET (durdurulduysa veya hata olduysa da)
+    const saveAiMessage = async (aiMessage: Message) => {
+      isFinalSaveStarted = true;
+      showAiMessage(aiMessage);
+      updateSessionState(activeSessionId, ({ streamingMessageId: _marker, ...session }) => session);
+      // Son kayıttan sonra biten bir ara kayıt yarım cevabı ve akış işaretini geri yazardı
+      await pendingCheckpoint;
+      // Akış sürerken silinen sohbet geri yazılmasın
+      if (!sessionsRef.current.some(s => s.id === activeSessionId)) return;
+      const sessionToWrite = buildSessionToSave(aiMessage);
+      updateSessionIndex(sessionToWrite);
+      // Sadece yeni cevap (ve oturum kaydı) yazılır; önceki mesajlar yeniden yazılmaz
+      let savedSession: ChatSession;
+      try {
+        savedSession = await persistMessages(sessionToWrite, [aiMessage]);
+      } catch (error) {
+        // Kasa kaydetmeden kilitlendiyse son ara kayıt kalır; kilit açılınca yarım cevap olarak kurtarılır
+        if (error instanceof VaultLockedError) return;
+        throw error;
+      }
+
+      if (usage) {
+        const entry: UsageEntry = {
+          // Devam ya da yeniden deneme ayrı bir harcamadır; önceki isteğin kaydını ezmesin
+          id: continued || replacing ? `${aiMessage.id}-${Date.now()}` : aiMessage.id,
+          sessionId: activeSessionId,
+          model: aiMessage.model || '',
+          usage,
+          timestamp: aiMessage.timestamp,
+        };
+        await recordUsage(entry);
+      }
+
+      // İlk cevaptan sonra arka planda başlık üret
+      if (!aiMessage.isError && needsGeneratedTitle(savedSession)) {
+        void generateTitleFor(savedSession);
+      }
+    };
+
+    try {
+      // 3. Model Yanıtını Başlat (oturumun sağlayıcısı üzerinden)
+      const activeProviderSettings = baseSession.providerSettings || defaultSettings.providerSettings;
+      const provider = getProvider(activeProviderSettings.provider);
+      const persona = resolvePersona(personas, baseSession.personaId);
+      modelName = activeProviderSettings.model || provider.defaultModel;
+      let systemInstruction = renderSystemPrompt(persona.systemPrompt, activeProviderSettings.model || provider.defaultModel);
+
+      // Sohbetin oturum kaydında akış işareti durur (ara kayıtlar ve akış sırasındaki ayar değişiklikleri için)
+      updateSessionState(activeSessionId, session => ({ ...session, streamingMessageId: aiMessageId }));
+
+      // Bağlam sınırı: politika gereği eski turlar atılır, ekleri çıkarılır ya da özetlenir
+      const plan = planContext(
+        history,
+        estimateContextTokens([], systemInstruction) + estimateMessageTokens(promptMessage),
+        defaultSettings.context
+      );
+      if (plan.toSummarize.length > 0) {
+        const summary = await summarizeTurns(
+          plan.toSummarize,
+          baseSession.contextSummary,
+          activeProviderSettings,
+          abortController.signal,
+          backgroundUsageListener(`${aiMessageId}-summary`, activeSessionId, activeProviderSettings)
+        );
+        sessionToSave = { ...sessionToSave, contextSummary: summary };
+        updateSessionState(activeSessionId, session => ({ ...session, contextSummary: summary }));
+        systemInstruction = withSummary(systemInstruction, summary);
+      }
+      contextRecord = {
+        ...plan.record,
+        tokens: estimateContextTokens(plan.history, systemInstruction) + estimateMessageTokens(promptMessage),
+      };
+
+      const generationConfig = resolveGenerationConfig(defaultSettings.generationConfig, baseSession);
+      const toolsEnabled = generationConfig.toolsEnabled ?? provider.id === 'gemini';
+
+      const stream = streamWithRetry({
+        prompt: promptMessage.text,
+        attachments: promptMessage.attachments || [],
+        history: plan.history,
+        config: generationConfig,
+        settings: activeProviderSettings,
+        systemInstruction,
+        signal: abortController.signal,
+        ...(toolsEnabled && {
+          tools: TOOLS,
+          toolContext: { attachments: baseSession.messages.flatMap(m => m.attachments || []) },
+        }),
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'retry') {
+          setRetryStatus(event);
+          continue;
+        }
+        setRetryStatus(null);
+        switch (event.type) {
+          case 'usage':
+            usage = event.usage;
+            modelName = event.model || modelName;
+            continue;
+          case 'thought':
+            thinkingStartedAt ??= Date.now();
+            accumulatedThoughts += event.text;
+            break;
+          case 'text':
+            finishThinking();
+            parts = appendText(parts, needsSeparator && parts.length > 0 ? `\n\n${event.text}` : event.text);
+            needsSeparator = false;
+            break;
+          case 'part':
+            finishThinking();
+            parts = [...parts, event.part];
+            break;
+          case 'tool-call':
+            toolSteps = [...toolSteps, event.step];
+            break;
+          case 'tool-result':
+            toolSteps = toolSteps.map(step => (step.id === event.step.id ? event.step : step));
+            needsSeparator = true;
+            break;
+          case 'finish':
+            finishReason = event.reason;
+            safetyRatings = event.safetyRatings;
+            break;
+        }
+        showAiMessage(buildAiMessage());
+        checkpoint();
+      }
+
+      finishThinking();
+      await saveAiMessage(buildAiMessage(abortController.signal.aborted ? { isStopped: true } : {}));
+
+    } catch (error: any) {
+      finishThinking();
+      // Kullanıcı durdurduysa bu bir hata değil, yarım cevabı sakla
+      if (abortController.signal.aborted) {
+        await saveAiMessage(buildAiMessage({ isStopped: true }));
+        return;
+      }
+
+      console.error("Hata:", error);
+      const providerError = toProviderError(error);
+      const errorText = providerError.message || "Sorry, something went wrong.";
+      // Devam isteği başarısızsa yarım cevap korunur ve tekrar devam ettirilebilir
+      if (continued) {
+        await saveAiMessage(buildAiMessage({ isInterrupted: true }));
+        alert(`The answer could not be continued: ${errorText}`);
+        return;
+      }
+      await saveAiMessage(buildAiMessage({
+        text: errorText,
+        parts: toTextParts(errorText),
+        isError: true,
+        errorKind: providerError.kind,
+      }));
+    } finally {
+      abortControllerRef.current = null;
+      setRetryStatus(null);
+      streamingSessionIdRef.current = null;
+      releaseStreamLock();
+      finishStream();
+      setPendingReplyTo(null);
+      setIsLoading(false);
+    }
+  };
+
   // --- DÜZELTİLMİŞ MESAJ GÖNDERME FONKSİYONU ---
-  const handleSendMessage = async (text: string, attachments: Attachment[] = []) => {
-    let activeSessionId = currentSessionId;
-    let currentHistory = messages; 
-    let workingSession: ChatSession | undefined;
+  /**
+   * Sends a message from the input area. Resolves once the message is saved (the answer keeps streaming),
+   * or to false when it is not sent, so the input keeps the draft.
+   */
+  const handleSendMessage = async (text: string, attachments: Attachment[] = []): Promise<boolean> => {
+    if (isBudgetBlocked || isSessionLoading) return false;
+    if (currentSession && !(await confirmConcurrentStream(currentSession.id))) return false;
+    let workingSession = currentSession;
+    const newMessages: Message[] = [];
 
     // 1. Yeni Chat Oluşturma (Gerekirse)
-    if (!activeSessionId) {
-      const titleText = text || (attachments.length > 0 ? `Image Analysis` : 'New Chat');
+    if (!workingSession) {
       const newSession: ChatSession = {
         id: Date.now().toString(),
-        title: titleText.slice(0, 30) + (titleText.length > 30 ? '...' : ''),
+        title: getPlaceholderTitle(text, attachments.length > 0),
+        titleSource: 'auto',
         messages: [],
+        activeChildren: {},
         createdAt: Date.now(),
-        updatedAt: Date.now()
+        updatedAt: Date.now(),
+        pinned: false,
+        archived: false,
+        tags: [],
+        providerSettings: defaultSettings.providerSettings,
+        personaId: currentPersona.id,
+        generationConfig: currentPersona.defaults && Object.keys(currentPersona.defaults).length > 0
+          ? { ...currentPersona.defaults }
+          : undefined
       };
-      activeSessionId = newSession.id;
-      
-      setSessions(prev => [newSession, ...prev]);
-      setCurrentSessionId(activeSessionId);
-      currentHistory = [];
       workingSession = newSession;
-      
-      // Hemen kaydet
-      await saveSessionToDB(newSession);
-    } else {
-        workingSession = sessions.find(s => s.id === activeSessionId);
+
+      // Personanın açılış mesajı sohbetin ilk (kök) mesajı olur
+      if (currentPersona.greeting) {
+        const greeting: Message = {
+          id: `greeting-${newSession.id}`,
+          role: 'model',
+          text: currentPersona.greeting,
+          parts: toTextParts(currentPersona.greeting),
+          timestamp: newSession.createdAt,
+          parentId: null,
+          isGreeting: true,
+        };
+        workingSession = upsertMessage(newSession, greeting);
+        newMessages.push(greeting);
+      }
+
+      setCurrentSessionId(newSession.id);
     }
 
-    // 2. Kullanıcı Mesajını Ekle
+    // 2. Kullanıcı Mesajını Seçili dalın sonuna ekle
+    const activePath = getActivePath(workingSession);
+    const lastMessage = activePath[activePath.length - 1];
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
       text: text,
+      parts: toTextParts(text),
       attachments: attachments,
       timestamp: Date.now(),
+      parentId: lastMessage ? lastMessage.id : null,
     };
 
-    const updatedHistoryForUI = [...currentHistory, userMessage];
+    const sessionWithUserMessage: ChatSession = {
+      ...upsertMessage(workingSession, userMessage),
+      updatedAt: Date.now()
+    };
 
-    // State Güncelle
-    setSessions(prevSessions => prevSessions.map(session => 
-      session.id === activeSessionId 
-        ? { ...session, messages: updatedHistoryForUI, updatedAt: Date.now() }
-        : session
-    ));
+    // State ve DB Güncelle (sadece yeni mesajlar yazılır)
+    setLoadedSessions(prev => ({ ...prev, [sessionWithUserMessage.id]: sessionWithUserMessage }));
+    updateSessionIndex(sessionWithUserMessage);
+    const savedSession = await persistMessages(sessionWithUserMessage, [...newMessages, userMessage]);
 
-    // DB Güncelle
-    if (workingSession) {
-        await saveSessionToDB({
-            ...workingSession,
-            id: activeSessionId!,
-            messages: updatedHistoryForUI,
-            updatedAt: Date.now()
-        });
-    }
+    void streamModelResponse(savedSession, userMessage);
+    return true;
+  };
 
-    setIsLoading(true);
+  // Aynı soruya yeni bir cevap üret (eski cevap kardeş varyant olarak kalır)
+  const handleRegenerate = async (messageId: string) => {
+    if (!currentSession || isLoading || isBudgetBlocked) return;
+    const message = currentSession.messages.find(m => m.id === messageId);
+    const userMessage = currentSession.messages.find(m => m.id === message?.parentId);
+    if (!userMessage || userMessage.role !== 'user') return;
+    if (!(await confirmConcurrentStream(currentSession.id))) return;
 
-    try {
-      // 3. Gemini Yanıtını Başlat
-      const stream = generateContentStream(text, attachments, currentHistory, { thinkingBudget });
-      
-      let accumulatedText = "";
-      let aiMessageId = (Date.now() + 1).toString();
-      let isFirstChunk = true;
-
-      for await (const chunk of stream) {
-        accumulatedText += chunk;
-
-        if (isFirstChunk) {
-            isFirstChunk = false;
-            const aiMessage: Message = {
-                id: aiMessageId,
-                role: 'model',
-                text: accumulatedText,
-                timestamp: Date.now(),
-            };
-            
-            setSessions(prevSessions => prevSessions.map(session => 
-                session.id === activeSessionId 
-                ? { ...session, messages: [...updatedHistoryForUI, aiMessage] }
-                : session
-            ));
-        } else {
-             setSessions(prevSessions => prevSessions.map(session => 
-                session.id === activeSessionId 
-                ? { 
-                    ...session, 
-                    messages: session.messages.map(m => 
-                        m.id === aiMessageId ? { ...m, text: accumulatedText } : m
-                    ) 
-                  }
-                : session
-            ));
-        }
-      }
-      
-      // 4. BİTİŞ - SON HALİNİ DB'YE KAYDET
-      const finalAiMessage: Message = {
-          id: aiMessageId,
-          role: 'model',
-          text: accumulatedText,
-          timestamp: Date.now()
-      };
+    await streamModelResponse(currentSession, userMessage);
+  };
 
-      const currentSessionData = sessions.find(s => s.id === activeSessionId) || workingSession;
-      
-      const finalSessionState: ChatSession = {
-          id: activeSessionId!,
-          title: currentSessionData?.title || 'Chat',
-          createdAt: currentSessionData?.createdAt || Date.now(),
-          messages: [...updatedHistoryForUI, finalAiMessage],
-          updatedAt: Date.now()
-      };
+  // Yarım kalan ya da token sınırında kesilen cevabın devamını iste; yeni metin aynı mesaja eklenir
+  const handleContinue = async (messageId: string) => {
+    if (!currentSession || isLoading || isBudgetBlocked) return;
+    const message = currentSession.messages.find(m => m.id === messageId);
+    const userMessage = currentSession.messages.find(m => m.id === message?.parentId);
+    if (!message || !userMessage || userMessage.role !== 'user') return;
+    if (!(await confirmConcurrentStream(currentSession.id))) return;
 
-      // İşte burası eskiden çalışmıyordu, şimdi çalışacak:
-      await saveSessionToDB(finalSessionState);
+    await streamModelResponse(currentSession, userMessage, { continued: message });
+  };
 
-    } catch (error: any) {
-      console.error("Hata:", error);
-      const errorMessage: Message = {
-        id: (Date.now() + 2).toString(),
-        role: 'model',
-        text: error.message || "Sorry, something went wrong.",
-        timestamp: Date.now(),
-        isError: true,
-      };
-      
-      setSessions(prevSessions => prevSessions.map(session => 
-        session.id === activeSessionId 
-          ? { ...session, messages: [...updatedHistoryForUI, errorMessage] }
-          : session
-      ));
-
-      if (activeSessionId) {
-         const latestSession = sessions.find(s => s.id === activeSessionId) || workingSession;
-         if (latestSession) {
-             await saveSessionToDB({
-                 ...latestSession,
-                 messages: [...updatedHistoryForUI, errorMessage],
-                 updatedAt: Date.now()
-             });
-         }
-      }
-    } finally {
-      setIsLoading(false);
-    }
+  // Hatalı cevabın yerine aynı tur yeniden gönderilir; kullanıcı mesajı tekrarlanmaz
+  const handleRetry = async (messageId: string) => {
+    if (!currentSession || isLoading || isBudgetBlocked) return;
+    const message = currentSession.messages.find(m => m.id === messageId);
+    const userMessage = currentSession.messages.find(m => m.id === message?.parentId);
+    if (!message?.isError || !userMessage || userMessage.role !== 'user') return;
+    if (!(await confirmConcurrentStream(currentSession.id))) return;
+
+    await streamModelResponse(currentSession, userMessage, { replacing: message });
   };
 
+  // Önceki bir kullanıcı mesajını düzenle: eski dal kardeş varyant olarak kalır, yeni daldan devam edilir
+  const handleEditMessage = async (messageId: string, text: string, attachments: Attachment[]) => {
+    if (!currentSession || isLoading || isBudgetBlocked) return;
+    const original = currentSession.messages.find(m => m.id === messageId);
+    if (!original || original.role !== 'user') return;
+    if (!(await confirmConcurrentStream(currentSession.id))) return;
+
+    const editedMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: text,
+      parts: toTextParts(text),
+      attachments: attachments,
+      timestamp: Date.now(),
+      parentId: original.parentId ?? null,
+    };
+
+    const forkedSession: ChatSession = {
+      ...upsertMessage(currentSession, editedMessage),
+      updatedAt: Date.now()
+    };
+
+    updateSessionState(forkedSession.id, () => forkedSession);
+    updateSessionIndex(forkedSession);
+    const savedSession = await persistMessages(forkedSession, [editedMessage]);
+
+    await streamModelResponse(savedSession, editedMessage);
+  };
+
+  const handleSelectVariant = async (messageId: string) => {
+    if (!currentSession || isLoading) return;
+    await saveCurrentSession(selectBranch(currentSession, messageId));
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // ChatMessage memo'lu: atlanan render'da eski kalan geri çağrılar da bu ref üzerinden en güncel işleyicileri çağırır
+  const messageHandlers = {
+    regenerate: handleRegenerate,
+    retry: handleRetry,
+    continue: handleContinue,
+    edit: handleEditMessage,
+    selectSibling: (messageId: string, offset: number) => {
+      if (!currentSession) return;
+      const { siblings, index } = getSiblings(currentSession, messageId);
+      if (siblings[index + offset]) void handleSelectVariant(siblings[index + offset].id);
+    },
+    codeBlockSettingsChange: handleCodeBlockSettingsChange,
+  };
+  const messageHandlersRef = useRef(messageHandlers);
+  messageHandlersRef.current = messageHandlers;
+
   if (!isStorageInitialized) {
     return (
       <div className="flex h-screen items-center justify-center bg-slate-900 text-slate-100">
@@ -270,11 +1040,20 @@ const App: React.FC = () => {
     <div className="flex h-screen overflow-hidden bg-slate-900 text-slate-100 font-sans">
       <Sidebar 
         sessions={sessions}
+        folders={folders}
         currentSessionId={currentSessionId}
         onSelectSession={handleSelectSession}
         onNewChat={handleNewChat}
         onDeleteSession={handleDeleteSession}
         onRenameSession={handleRenameSession}
+        onOrganizeSession={handleOrganizeSession}
+        onSaveFolder={handleSaveFolder}
+        onDeleteFolder={handleDeleteFolder}
+        onOpenSearchResult={handleOpenSearchResult}
+        onExportSessions={handleExportSessions}
+        onImportFile={handleImportFile}
+        onRetitleAll={handleRetitleAll}
+        retitleProgress={retitleProgress}
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
       />
@@ -304,6 +1083,13 @@ const App: React.FC = () => {
                 </div>
                 <h1 className="text-lg font-semibold tracking-tight text-white group-hover:text-cyan-400 transition-colors">Mustafa AI</h1>
             </div>
+            <button
+              onClick={() => setIsPersonaManagerOpen(true)}
+              className="hidden sm:block px-2 py-0.5 rounded-md text-xs text-slate-400 border border-slate-700 hover:text-cyan-400 hover:border-cyan-500/40 transition-colors truncate max-w-[12rem]"
+              title="Manage personas"
+            >
+              {currentPersona.name}
+            </button>
           </div>
           
           <div className="flex items-center gap-2">
@@ -316,6 +1102,26 @@ const App: React.FC = () => {
               </svg>
               <span className="text-sm font-medium">New Chat</span>
             </button>
+            <button
+              onClick={() => setIsUsageStatsOpen(true)}
+              className={`p-2 rounded-lg hover:bg-slate-800 transition-colors ${budgetStatus.level === 'ok' ? 'text-slate-400 hover:text-white' : 'text-amber-400'}`}
+              title="Usage & costs"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setIsEncryptionOpen(true)}
+              className={`p-2 rounded-lg hover:bg-slate-800 transition-colors ${isEncrypted ? 'text-cyan-400 hover:text-cyan-300' : 'text-slate-400 hover:text-white'}`}
+              title={isEncrypted ? 'Encryption: on' : 'Encryption: off'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d={isEncrypted
+                  ? 'M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z'
+                  : 'M13.5 10.5V6.75a4.5 4.5 0 119 0v3.75M3.75 21.75h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H3.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z'} />
+              </svg>
+            </button>
             <button 
               onClick={() => setIsSettingsOpen(true)}
               className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
@@ -330,7 +1136,11 @@ const App: React.FC = () => {
 
         <main className="flex-1 overflow-y-auto relative custom-scrollbar">
           <div className="max-w-4xl mx-auto px-4 py-8">
-            {messages.length === 0 ? (
+            {isSessionLoading ? (
+              <div className="flex justify-center py-20">
+                <div className="w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+              </div>
+            ) : messages.length === 0 ? (
               <div className="flex flex-col items-center justify-center min-h-[50vh] text-center px-4 animate-fade-in">
                 <div className="w-20 h-20 bg-slate-800 rounded-2xl flex items-center justify-center mb-6 shadow-xl shadow-black/20">
                   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1} stroke="currentColor" className="w-10 h-10 text-cyan-400">
@@ -342,20 +1152,68 @@ const App: React.FC = () => {
                   Experience the reasoning capabilities of Gemini 3 Pro.
                 </p>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full max-w-2xl">
-                   {/* Butonlar burada */}
+                  {personas.map(persona => (
+                    <button
+                      key={persona.id}
+                      onClick={() => handleSelectPersona(persona.id)}
+                      className={`text-left px-4 py-3 rounded-xl border transition-colors ${
+                        persona.id === currentPersona.id
+                          ? 'bg-cyan-900/20 border-cyan-500/40 text-cyan-300'
+                          : 'bg-slate-800/60 border-slate-700 text-slate-300 hover:border-slate-500'
+                      }`}
+                    >
+                      <span className="block text-sm font-medium truncate">{persona.name}</span>
+                      <span className="block text-xs text-slate-500 truncate mt-0.5">{persona.systemPrompt.split('\n')[0]}</span>
+                    </button>
+                  ))}
                 </div>
+                {currentPersona.greeting && (
+                  <p className="text-sm text-slate-400 italic max-w-md mt-6">"{currentPersona.greeting}"</p>
+                )}
+                <button
+                  onClick={() => setIsPersonaManagerOpen(true)}
+                  className="mt-6 text-sm text-slate-500 hover:text-cyan-400 transition-colors"
+                >
+                  Manage personas
+                </button>
               </div>
             ) : (
               <>
-                {messages.map((msg) => (
-                  <ChatMessage key={msg.id} message={msg} />
-                ))}
+                {messages.map((msg) => {
+                  const { siblings, index } = getSiblings(currentSession!, msg.id);
+                  return (
+                    <ChatMessage
+                      key={msg.id}
+                      message={msg}
+                      variantIndex={index}
+                      variantCount={siblings.length}
+                      onSelectVariant={(offset) => messageHandlersRef.current.selectSibling(msg.id, offset)}
+                      onRegenerate={msg.role === 'model' && msg.parentId && !msg.isError ? () => messageHandlersRef.current.regenerate(msg.id) : undefined}
+                      onRetry={msg.isError && msg.parentId ? () => messageHandlersRef.current.retry(msg.id) : undefined}
+                      onContinue={msg.isInterrupted || msg.finishReason === 'max-tokens' ? () => messageHandlersRef.current.continue(msg.id) : undefined}
+                      onEdit={msg.role === 'user' ? (text, attachments) => messageHandlersRef.current.edit(msg.id, text, attachments) : undefined}
+                      isBusy={isLoading}
+                      isHighlighted={msg.id === highlightedMessageId}
+                      contextStatus={contextStatuses.get(msg.id)}
+                      cost={msg.usage && msg.model ? computeCost(msg.usage, msg.model, defaultSettings.prices) : undefined}
+                      codeBlockSettings={defaultSettings.codeBlocks}
+                      onCodeBlockSettingsChange={(settings) => messageHandlersRef.current.codeBlockSettingsChange(settings)}
+                    />
+                  );
+                })}
                 
-                {isLoading && messages.length > 0 && messages[messages.length - 1].role === 'user' && (
+                {isLoading && messages.length > 0 && (retryStatus || messages[messages.length - 1].role === 'user') && (
                   <div className="flex w-full mb-6 justify-start">
                      <div className="max-w-[85%] sm:max-w-[75%] rounded-2xl rounded-bl-none px-5 py-4 bg-slate-800 border border-slate-700 shadow-md">
                         <div className="flex items-center gap-3">
-                            <span className="text-slate-300 text-sm font-medium animate-pulse">Thinking...</span>
+                            {retryStatus ? (
+                              <span className="text-amber-300 text-sm font-medium animate-pulse">
+                                {ERROR_DETAILS[retryStatus.kind].title} · retrying in {Math.ceil(retryStatus.delayMs / 1000)}s
+                                (attempt {retryStatus.attempt} of {retryStatus.maxAttempts})
+                              </span>
+                            ) : (
+                              <span className="text-slate-300 text-sm font-medium animate-pulse">Thinking...</span>
+                            )}
                         </div>
                      </div>
                   </div>
@@ -366,15 +1224,69 @@ const App: React.FC = () => {
           </div>
         </main>
         <div className="flex-none bg-gradient-to-t from-slate-900 via-slate-900 to-transparent pt-6 pb-2 px-4">
-           <InputArea onSendMessage={handleSendMessage} isLoading={isLoading} />
+           <InputArea
+             onSendMessage={handleSendMessage}
+             onStop={handleStopGeneration}
+             isLoading={isLoading}
+             isSessionLoading={isSessionLoading}
+             contextTokens={contextTokens}
+             contextSettings={defaultSettings.context}
+             budgetStatus={budgetStatus}
+           />
         </div>
       </div>
       <SettingsPanel 
-        thinkingBudget={thinkingBudget}
-        setThinkingBudget={setThinkingBudget}
+        generationConfig={isSessionScope
+          ? resolveGenerationConfig(defaultSettings.generationConfig, currentSession)
+          : defaultSettings.generationConfig}
+        onGenerationConfigChange={handleGenerationConfigChange}
+        overriddenKeys={Object.keys(currentSession?.generationConfig || {}) as (keyof GeminiConfig)[]}
+        onResetOverrides={handleResetOverrides}
+        providerSettings={isSessionScope ? providerSettings : defaultSettings.providerSettings}
+        activeProviderSettings={providerSettings}
+        onProviderSettingsChange={handleProviderSettingsChange}
+        contextSettings={defaultSettings.context}
+        onContextSettingsChange={handleContextSettingsChange}
+        scope={settingsScope}
+        onScopeChange={setSettingsScope}
+        hasActiveSession={!!currentSession}
         isOpen={isSettingsOpen}
         toggleOpen={() => setIsSettingsOpen(!isSettingsOpen)}
       />
+      {isPersonaManagerOpen && (
+        <PersonaManager
+          personas={personas}
+          onSave={handleSavePersona}
+          onDelete={handleDeletePersona}
+          onClose={() => setIsPersonaManagerOpen(false)}
+        />
+      )}
+      {isUsageStatsOpen && (
+        <UsageStats
+          usageLog={usageLog}
+          sessions={sessions}
+          prices={defaultSettings.prices}
+          budget={defaultSettings.budget}
+          onPricesChange={handlePricesChange}
+          onBudgetChange={handleBudgetChange}
+          onClose={() => setIsUsageStatsOpen(false)}
+        />
+      )}
+      {isEncryptionOpen && (
+        <EncryptionSettings onClose={() => setIsEncryptionOpen(false)} />
+      )}
+      {pendingImport && (
+        <ImportDialog
+          totalCount={pendingImport.length}
+          collisionCount={pendingImport.filter(session => sessions.some(s => s.id === session.id)).length}
+          onChoose={async (strategy) => {
+            const imported = pendingImport;
+            setPendingImport(null);
+            await applyImport(imported, strategy);
+          }}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
       {isSettingsOpen && (
         <div 
           className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { Attachment } from '../types';
+import { getAttachmentUrl } from '../services/attachmentStore';
+
+interface AttachmentImageProps {
+  attachment: Attachment;
+  alt?: string;
+  className?: string;
+}
+
+/**
+ * Image attachment thumbnail. The blob is read from the attachment store only when
+ * the thumbnail is shown, so sessions with many images stay light to load.
+ */
+const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachment, alt, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    getAttachmentUrl(attachment)
+      .then(u => { if (!cancelled) setUrl(u); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [attachment.hash]);
+
+  if (failed) {
+    return <span className="text-[10px] text-slate-500" title="Attachment content is missing">?</span>;
+  }
+  if (!url) {
+    return <div className={`${className || ''} bg-white/5 animate-pulse`} />;
+  }
+  return <img src={url} alt={alt ?? attachment.name} className={className} />;
+};
+
+export default AttachmentImage;
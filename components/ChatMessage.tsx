@@ -1,33 +1,187 @@
-import React from 'react';
-import { Message } from '../types';
-import { marked } from 'marked';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Message, MessagePart, Attachment, ContextStatus, ToolStep, CodeBlockSettings } from '../types';
+import { formatTokenCount } from '../services/context';
+import { formatCost } from '../services/usage';
+import { ERROR_DETAILS } from '../services/errors';
+import { getFinishBadge } from '../services/safety';
+import { OUTCOME_LABELS, getMessageParts } from '../services/parts';
+import { renderMarkdown, loadRemoteImage } from '../services/markdown';
+import { renderCodeBlock, runCodeBlockAction } from '../services/codeBlocks';
+import { renderDiagrams, toggleDiagramSource } from '../services/diagrams';
+import MessageEditor from './MessageEditor';
+import AttachmentImage from './AttachmentImage';
 
 interface ChatMessageProps {
   message: Message;
+  variantIndex: number;
+  variantCount: number;
+  onSelectVariant: (offset: number) => void;
+  onRegenerate?: () => void;
+  onContinue?: () => void; // Yarım kalan cevabın devamını iste
+  onRetry?: () => void; // Hatalı cevabın yerine aynı turu yeniden gönder
+  onEdit?: (text: string, attachments: Attachment[]) => void;
+  isBusy: boolean;
+  isHighlighted?: boolean;
+  contextStatus?: ContextStatus; // Son cevapta bu mesaj tam gönderilmediyse
+  cost?: number; // Fiyat tablosuna göre tahmini maliyet (USD)
+  codeBlockSettings: CodeBlockSettings;
+  onCodeBlockSettingsChange: (settings: CodeBlockSettings) => void;
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+const CONTEXT_BADGES: Record<ContextStatus, { label: string; title: string }> = {
+  omitted: { label: 'Not sent', title: 'Left out of the last request to stay within the context limit' },
+  summarized: { label: 'Summarized', title: 'Sent as part of a summary in the last request' },
+  stripped: { label: 'Files not sent', title: 'Attachments were removed from the last request to save context' },
+};
+
+// Kısa argüman özeti: calculator(expression: "2+2")
+const summarizeArgs = (args: Record<string, unknown>): string => {
+  const text = Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+};
+
+const ToolStepItem: React.FC<{ step: ToolStep }> = ({ step }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isRunning = step.durationMs === undefined;
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-1 max-w-full text-slate-400 hover:text-slate-200 transition-colors"
+      >
+        {isRunning ? (
+          <span className="w-3 h-3 flex-shrink-0 rounded-full border-2 border-slate-500 border-t-cyan-400 animate-spin" />
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-3 h-3 flex-shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+          </svg>
+        )}
+        <span className="font-mono text-cyan-400">{step.name}</span>
+        <span className="font-mono truncate">({summarizeArgs(step.args)})</span>
+        {step.error !== undefined && <span className="text-red-400">failed</span>}
+        {!isRunning && <span className="text-slate-500">{step.durationMs}ms</span>}
+      </button>
+      {isOpen && (
+        <div className="mt-1 ml-2 pl-3 border-l-2 border-slate-600 space-y-1 font-mono text-[11px]">
+          <pre className="whitespace-pre-wrap break-all text-slate-400">{JSON.stringify(step.args, null, 2)}</pre>
+          {step.error !== undefined ? (
+            <pre className="whitespace-pre-wrap break-all text-red-300">{step.error}</pre>
+          ) : !isRunning && (
+            <pre className="whitespace-pre-wrap break-all text-slate-300">{JSON.stringify(step.result, null, 2)}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+type ImagePart = Extract<MessagePart, { type: 'image' }>;
+type PartGroup = { type: 'gallery'; images: ImagePart[] } | { type: 'single'; part: MessagePart };
+
+// Art arda gelen görseller tek galeride gösterilir
+const groupParts = (parts: MessagePart[]): PartGroup[] => {
+  const groups: PartGroup[] = [];
+  parts.forEach(part => {
+    const last = groups[groups.length - 1];
+    if (part.type === 'image' && last?.type === 'gallery') {
+      last.images.push(part);
+    } else {
+      groups.push(part.type === 'image' ? { type: 'gallery', images: [part] } : { type: 'single', part });
+    }
+  });
+  return groups;
+};
+
+const ImageGallery: React.FC<{ images: ImagePart[] }> = ({ images }) => (
+  <div className={`my-3 grid gap-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+    {images.map((image, i) => {
+      const src = `data:${image.mimeType};base64,${image.data}`;
+      return (
+        <div key={i} className="relative group rounded-lg overflow-hidden border border-white/10 bg-black/20">
+          <img src={src} alt={`Generated image ${i + 1}`} className="w-full h-auto object-contain" />
+          <a
+            href={src}
+            download={`image-${i + 1}.${image.mimeType.split('/')[1] || 'png'}`}
+            className="absolute top-2 right-2 p-1.5 rounded-md bg-black/60 text-slate-200 opacity-0 group-hover:opacity-100 hover:text-cyan-400 transition-opacity"
+            title="Download image"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+            </svg>
+          </a>
+        </div>
+      );
+    })}
+  </div>
+);
+
+// Kullanıcı ve model metni aynı temizleyici hattan geçer; metin değişmedikçe yeniden işlenmez (akışta sadece son parça değişir)
+const MarkdownContent: React.FC<{ text: string; className: string; onClick: (e: React.MouseEvent) => void }> = ({ text, className, onClick }) => {
+  const html = useMemo(() => ({ __html: renderMarkdown(text) }), [text]);
+  return <div className={className} onClick={onClick} dangerouslySetInnerHTML={html} />;
+};
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  variantIndex,
+  variantCount,
+  onSelectVariant,
+  onRegenerate,
+  onContinue,
+  onRetry,
+  onEdit,
+  isBusy,
+  isHighlighted,
+  contextStatus,
+  cost,
+  codeBlockSettings,
+  onCodeBlockSettingsChange
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isReasoningOpen, setIsReasoningOpen] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
   const isUser = message.role === 'user';
   const isError = message.isError;
+  const finishBadge = getFinishBadge(message);
+  // Süre henüz yoksa model hâlâ düşünüyor
+  const isThinking = !!message.thoughts && message.thinkingMs === undefined;
+  
+  const parts = getMessageParts(message);
+  const proseClass = `prose prose-invert max-w-none 
+      prose-p:leading-relaxed 
+      prose-pre:bg-slate-900/50 prose-pre:border prose-pre:border-white/10 prose-pre:p-3 prose-pre:rounded-lg
+      prose-code:bg-white/10 prose-code:rounded prose-code:px-1 prose-code:py-0.5 prose-code:before:content-none prose-code:after:content-none
+      text-sm sm:text-base break-words 
+      ${isUser ? 'prose-headings:text-white prose-p:text-white prose-strong:text-white' : 'text-slate-100'}`;
   
   // Format time
   const timeString = new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
-  // Render markdown safely
-  const renderContent = () => {
-    try {
-      // Configure marked to not sanitize if we trust the output (Gemini output is generally safe markdown)
-      // or rely on React's default behavior for innerHTML (which is what we do here)
-      // Note: In a production app with untrusted user input reflected back, you'd want DOMPurify here.
-      const html = marked.parse(message.text || '');
-      return { __html: html as string };
-    } catch (e) {
-      return { __html: message.text };
+  // Kod bloğu görünümü kapsayıcı sınıflarıyla seçilir; akış sırasında HTML yenilense de korunur
+  const codeBlockClass = `${codeBlockSettings.lineNumbers ? 'code-line-numbers' : ''} ${codeBlockSettings.wrap ? 'code-wrap' : ''}`;
+
+  // Mermaid diyagramları HTML yerleştikten sonra (yerelde, asenkron) çizilir
+  useEffect(() => {
+    if (contentRef.current) void renderDiagrams(contentRef.current);
+  });
+
+  // İçerikteki düğmeler (uzak görsel, kod bloğu başlığı) tek yerden yakalanır
+  const handleContentClick = (e: { target: EventTarget | null }) => {
+    if (loadRemoteImage(e.target) || toggleDiagramSource(e.target)) return;
+    const toggle = runCodeBlockAction(e.target);
+    if (toggle === 'line-numbers') {
+      onCodeBlockSettingsChange({ ...codeBlockSettings, lineNumbers: !codeBlockSettings.lineNumbers });
+    } else if (toggle === 'wrap') {
+      onCodeBlockSettingsChange({ ...codeBlockSettings, wrap: !codeBlockSettings.wrap });
     }
   };
 
   return (
-     <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
+     <div
+        id={`message-${message.id}`}
+        className={`flex w-full mb-6 rounded-2xl transition-colors duration-700 ${isUser ? 'justify-end' : 'justify-start'} ${isHighlighted ? 'bg-cyan-500/10 ring-1 ring-cyan-500/40' : ''} ${contextStatus === 'omitted' || contextStatus === 'summarized' ? 'opacity-50' : ''}`}
+     >
         {/* Avatar for Model */}
         {!isUser && (
             <div className="flex-shrink-0 mr-3">
@@ -47,55 +201,265 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
 
         <div className={`flex flex-col max-w-[85%] sm:max-w-[75%] ${isUser ? 'items-end' : 'items-start'}`}>
             
-            <div className={`
-                relative px-5 py-3.5 rounded-2xl shadow-sm overflow-hidden
-                ${isUser 
-                    ? 'bg-cyan-700 text-white rounded-tr-none' 
-                    : isError 
-                        ? 'bg-red-900/30 border border-red-500/30 text-red-100 rounded-tl-none'
-                        : 'bg-slate-800 border border-slate-700 text-slate-100 rounded-tl-none'
-                }
-            `}>
-                
-                {/* Attachments */}
-                {message.attachments && message.attachments.length > 0 && (
-                    <div className="flex flex-wrap gap-2 mb-3">
-                        {message.attachments.map((att, i) => (
-                            <div key={i} className="flex items-center gap-2 bg-black/20 rounded-lg p-2 max-w-full">
-                                <div className="w-8 h-8 flex-shrink-0 bg-white/10 rounded flex items-center justify-center overflow-hidden">
-                                    {att.mimeType.startsWith('image/') ? (
-                                        <img src={`data:${att.mimeType};base64,${att.data}`} alt="att" className="w-full h-full object-cover" />
-                                    ) : (
-                                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-                                            <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
-                                        </svg>
-                                    )}
-                                </div>
-                                <div className="flex flex-col overflow-hidden min-w-0">
-                                    <span className="text-xs font-medium truncate max-w-[150px]">{att.name}</span>
-                                    <span className="text-[10px] opacity-70 uppercase">{att.mimeType.split('/')[1] || 'FILE'}</span>
+            {isEditing && onEdit ? (
+                <MessageEditor
+                    initialText={message.text}
+                    initialAttachments={message.attachments || []}
+                    onSave={(text, attachments) => {
+                        setIsEditing(false);
+                        onEdit(text, attachments);
+                    }}
+                    onCancel={() => setIsEditing(false)}
+                />
+            ) : (
+                <div ref={contentRef} className={`
+                    relative px-5 py-3.5 rounded-2xl shadow-sm overflow-hidden
+                    ${isUser 
+                        ? 'bg-cyan-700 text-white rounded-tr-none' 
+                        : isError 
+                            ? 'bg-red-900/30 border border-red-500/30 text-red-100 rounded-tl-none'
+                            : 'bg-slate-800 border border-slate-700 text-slate-100 rounded-tl-none'
+                    }
+                `}>
+
+                    {/* Error kind: what went wrong and what to do */}
+                    {isError && message.errorKind && (
+                        <div className="mb-2">
+                            <div className="text-sm font-semibold text-red-200">{ERROR_DETAILS[message.errorKind].title}</div>
+                            <div className="text-xs text-red-300/80">{ERROR_DETAILS[message.errorKind].hint}</div>
+                        </div>
+                    )}
+
+                    {/* Reasoning (thought summaries) */}
+                    {message.thoughts && (
+                        <div className="mb-3 -mx-1">
+                            <button
+                                onClick={() => setIsReasoningOpen(!isReasoningOpen)}
+                                className="flex items-center gap-1.5 px-1 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-3 h-3 transition-transform ${isReasoningOpen ? 'rotate-90' : ''}`}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+                                </svg>
+                                {isThinking ? (
+                                    <span className="animate-pulse">Thinking...</span>
+                                ) : (
+                                    <span>Reasoning · {(message.thinkingMs! / 1000).toFixed(1)}s</span>
+                                )}
+                            </button>
+                            {isReasoningOpen && (
+                                <MarkdownContent
+                                    text={message.thoughts}
+                                    className={`mt-2 pl-3 border-l-2 border-slate-600 prose prose-invert prose-sm max-w-none text-slate-400 prose-p:text-slate-400 break-words ${codeBlockClass}`}
+                                    onClick={handleContentClick}
+                                />
+                            )}
+                        </div>
+                    )}
+
+                    {/* Tool calls */}
+                    {message.toolSteps && message.toolSteps.length > 0 && (
+                        <div className="mb-3 -mx-1 space-y-1">
+                            {message.toolSteps.map(step => <ToolStepItem key={step.id} step={step} />)}
+                        </div>
+                    )}
+
+                    {/* Attachments */}
+                    {message.attachments && message.attachments.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-3">
+                            {message.attachments.map((att, i) => (
+                                <div key={i} className="flex items-center gap-2 bg-black/20 rounded-lg p-2 max-w-full">
+                                    <div className="w-8 h-8 flex-shrink-0 bg-white/10 rounded flex items-center justify-center overflow-hidden">
+                                        {att.mimeType.startsWith('image/') ? (
+                                            <AttachmentImage attachment={att} alt="att" className="w-full h-full object-cover" />
+                                        ) : (
+                                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                                                <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+                                            </svg>
+                                        )}
+                                    </div>
+                                    <div className="flex flex-col overflow-hidden min-w-0">
+                                        <span className="text-xs font-medium truncate max-w-[150px]">{att.name}</span>
+                                        <span className="text-[10px] opacity-70 uppercase">{att.mimeType.split('/')[1] || 'FILE'}</span>
+                                    </div>
                                 </div>
-                            </div>
-                        ))}
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Content parts: text, images, code and its output in the order the model sent them */}
+                    {groupParts(parts).map((group, i) => {
+                        if (group.type === 'gallery') {
+                            return <ImageGallery key={i} images={group.images} />;
+                        }
+                        const part = group.part;
+                        switch (part.type) {
+                            case 'text':
+                                return (
+                                    <MarkdownContent
+                                        key={i}
+                                        text={part.text}
+                                        className={`${proseClass} ${codeBlockClass}`}
+                                        onClick={handleContentClick}
+                                    />
+                                );
+                            case 'code':
+                                return (
+                                    <div
+                                        key={i}
+                                        className={codeBlockClass}
+                                        onClick={handleContentClick}
+                                        dangerouslySetInnerHTML={{ __html: renderCodeBlock(part.code, part.language) }}
+                                    />
+                                );
+                            case 'code-result':
+                                return (
+                                    <div key={i} className={`mb-3 rounded-lg border px-3 py-2 ${part.outcome === 'ok' ? 'border-white/10 bg-black/30' : 'border-red-500/30 bg-red-900/20'}`}>
+                                        <div className={`text-[11px] mb-1 ${part.outcome === 'ok' ? 'text-slate-500' : 'text-red-300'}`}>{OUTCOME_LABELS[part.outcome]}</div>
+                                        <pre className="text-xs font-mono text-slate-300 whitespace-pre-wrap break-words">{part.output || '(no output)'}</pre>
+                                    </div>
+                                );
+                            case 'file':
+                                return (
+                                    <a
+                                        key={i}
+                                        href={part.uri || `data:${part.mimeType};base64,${part.data}`}
+                                        download={part.uri ? undefined : `file-${i + 1}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="my-2 inline-flex items-center gap-2 bg-black/20 rounded-lg px-3 py-2 text-xs text-cyan-400 hover:text-cyan-300"
+                                    >
+                                        File · {part.mimeType}
+                                    </a>
+                                );
+                            default:
+                                return null;
+                        }
+                    })}
+                    {parts.length === 0 && <div className={proseClass} />}
+                </div>
+            )}
+
+            <div className="flex items-center gap-2 mt-1 px-1">
+                <span className="text-[10px] text-slate-500">
+                    {timeString}
+                </span>
+                {message.isStopped && (
+                    <span className="text-[10px] font-medium uppercase tracking-wide text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded px-1.5 py-0.5" title="Generation was stopped before the answer was finished">
+                        Stopped
+                    </span>
+                )}
+                {finishBadge && (
+                    <span
+                        className={`text-[10px] font-medium uppercase tracking-wide rounded px-1.5 py-0.5 border whitespace-pre-line ${finishBadge.isBlock
+                            ? 'text-red-300 bg-red-500/10 border-red-500/20'
+                            : 'text-amber-400 bg-amber-500/10 border-amber-500/20'}`}
+                        title={finishBadge.title}
+                    >
+                        {finishBadge.label}
+                    </span>
+                )}
+                {message.isInterrupted && (
+                    <span className="text-[10px] font-medium uppercase tracking-wide text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded px-1.5 py-0.5" title="The tab was closed or the browser stopped while this answer was streaming">
+                        Interrupted
+                    </span>
+                )}
+                {contextStatus && (
+                    <span className="text-[10px] font-medium uppercase tracking-wide text-slate-400 bg-slate-700/40 border border-slate-600/40 rounded px-1.5 py-0.5" title={CONTEXT_BADGES[contextStatus].title}>
+                        {CONTEXT_BADGES[contextStatus].label}
+                    </span>
+                )}
+                {message.context && (
+                    <span
+                        className="text-[10px] font-mono text-slate-500"
+                        title={`${message.context.sentIds.length} earlier messages sent` +
+                            (message.context.summarizedIds.length ? `, ${message.context.summarizedIds.length} summarized` : '') +
+                            (message.context.omittedIds.length ? `, ${message.context.omittedIds.length} left out` : '') +
+                            (message.context.strippedIds.length ? `, files removed from ${message.context.strippedIds.length}` : '')}
+                    >
+                        ~{formatTokenCount(message.context.tokens)} ctx
+                    </span>
+                )}
+                {message.usage && (
+                    <span
+                        className="text-[10px] font-mono text-slate-500"
+                        title={`${message.model ? `${message.model}\n` : ''}Prompt: ${message.usage.promptTokens} (cached ${message.usage.cachedTokens})\n` +
+                            `Answer: ${message.usage.candidateTokens}\nThinking: ${message.usage.thinkingTokens}`}
+                    >
+                        {formatTokenCount(message.usage.totalTokens)} tok{cost !== undefined ? ` · ${formatCost(cost)}` : ''}
+                    </span>
+                )}
+
+                {/* Variant Navigation: < 2/3 > */}
+                {variantCount > 1 && (
+                    <div className="flex items-center text-[11px] text-slate-400">
+                        <button
+                            onClick={() => onSelectVariant(-1)}
+                            disabled={isBusy || variantIndex <= 0}
+                            className="px-1 hover:text-cyan-400 disabled:opacity-30 disabled:hover:text-slate-400"
+                            title="Previous variant"
+                        >
+                            &lt;
+                        </button>
+                        <span className="font-mono">{variantIndex + 1}/{variantCount}</span>
+                        <button
+                            onClick={() => onSelectVariant(1)}
+                            disabled={isBusy || variantIndex >= variantCount - 1}
+                            className="px-1 hover:text-cyan-400 disabled:opacity-30 disabled:hover:text-slate-400"
+                            title="Next variant"
+                        >
+                            &gt;
+                        </button>
                     </div>
                 )}
 
-                {/* Text Content */}
-                <div 
-                    className={`prose prose-invert max-w-none 
-                        prose-p:leading-relaxed 
-                        prose-pre:bg-slate-900/50 prose-pre:border prose-pre:border-white/10 prose-pre:p-3 prose-pre:rounded-lg
-                        prose-code:bg-white/10 prose-code:rounded prose-code:px-1 prose-code:py-0.5 prose-code:before:content-none prose-code:after:content-none
-                        text-sm sm:text-base break-words 
-                        ${isUser ? 'prose-headings:text-white prose-p:text-white prose-strong:text-white' : 'text-slate-100'}
-                    `}
-                    dangerouslySetInnerHTML={renderContent()}
-                />
+                {onEdit && !isEditing && (
+                    <button
+                        onClick={() => setIsEditing(true)}
+                        disabled={isBusy}
+                        className="p-0.5 text-slate-500 hover:text-cyan-400 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors"
+                        title="Edit message"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487zm0 0L19.5 7.125" />
+                        </svg>
+                    </button>
+                )}
+
+                {onRetry && (
+                    <button
+                        onClick={onRetry}
+                        disabled={isBusy}
+                        className="text-[11px] font-medium text-red-300 hover:text-red-200 disabled:opacity-30 disabled:hover:text-red-300 transition-colors"
+                        title="Send this turn again"
+                    >
+                        Retry
+                    </button>
+                )}
+
+                {onContinue && (
+                    <button
+                        onClick={onContinue}
+                        disabled={isBusy}
+                        className="text-[11px] font-medium text-cyan-400 hover:text-cyan-300 disabled:opacity-30 disabled:hover:text-cyan-400 transition-colors"
+                        title="Ask the model to continue where the answer stopped"
+                    >
+                        Continue
+                    </button>
+                )}
+
+                {onRegenerate && (
+                    <button
+                        onClick={onRegenerate}
+                        disabled={isBusy}
+                        className="p-0.5 text-slate-500 hover:text-cyan-400 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors"
+                        title="Regenerate"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+                        </svg>
+                    </button>
+                )}
             </div>
-            
-            <span className="text-[10px] text-slate-500 mt-1 px-1">
-                {timeString}
-            </span>
         </div>
 
         {/* User Avatar */}
@@ -112,4 +476,15 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
   );
 };
 
-export default ChatMessage;
+/**
+ * Callbacks are recreated on every render of the list; App routes them to its latest handlers,
+ * so only whether a callback is given matters. Other props are compared by identity.
+ */
+const arePropsEqual = (prev: ChatMessageProps, next: ChatMessageProps): boolean => {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof ChatMessageProps)[]);
+  return Array.from(keys).every(key =>
+    typeof next[key] === 'function' ? typeof prev[key] === 'function' : prev[key] === next[key]
+  );
+};
+
+export default React.memo(ChatMessage, arePropsEqual);
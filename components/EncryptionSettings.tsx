@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { VaultState } from '../types';
+import { changePassphrase, enableEncryption, setAutoLockMinutes } from '../services/storage';
+import { WrongPassphraseError, getVaultState, lockVault, subscribeToVault } from '../services/vault';
+
+interface EncryptionSettingsProps {
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500 disabled:opacity-50";
+const buttonClass = "px-4 py-2 text-sm rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Yeni parola ve tekrarı; hata yoksa undefined
+const validatePassphrase = (passphrase: string, confirmation: string): string | undefined => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  if (passphrase !== confirmation) return 'The passphrases do not match.';
+  return undefined;
+};
+
+/**
+ * Encryption at rest: enabling it with a passphrase, auto-lock, locking now and changing the passphrase.
+ */
+const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ onClose }) => {
+  const [vault, setVault] = useState<VaultState>(getVaultState);
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Kayıtlar şifrelenirken ilerleme; null: işlem yok
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isDone, setIsDone] = useState(false);
+
+  useEffect(() => subscribeToVault(setVault), []);
+
+  const isBusy = progress !== null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = validatePassphrase(passphrase, confirmation);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    setError(null);
+    setIsDone(false);
+    setProgress({ done: 0, total: 0 });
+    const onProgress = (done: number, total: number) => setProgress({ done, total });
+    try {
+      if (vault.enabled) {
+        await changePassphrase(current, passphrase, onProgress);
+      } else {
+        await enableEncryption(passphrase, onProgress);
+      }
+      setCurrent('');
+      setPassphrase('');
+      setConfirmation('');
+      setIsDone(true);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof WrongPassphraseError ? 'The current passphrase is wrong.' : (err as Error).message || 'Encryption failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={() => !isBusy && onClose()}>
+      <div
+        className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-white">Encryption</h2>
+          <button onClick={onClose} disabled={isBusy} className="p-1 text-slate-400 hover:text-white transition-colors disabled:opacity-50">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {vault.enabled ? (
+            <section className="space-y-3">
+              <p className="text-sm text-slate-400">
+                Chats, the search index, attachments, folders, personas, settings (including API keys) and the usage log
+                are stored encrypted with a key derived from your passphrase.
+              </p>
+              <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm text-slate-400">
+                  Auto-lock
+                  <select
+                    value={vault.autoLockMinutes}
+                    onChange={e => void setAutoLockMinutes(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+                  >
+                    {AUTO_LOCK_OPTIONS.map(option => (
+                      <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={() => void lockVault()}
+                  disabled={isBusy}
+                  className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-slate-100`}
+                >
+                  Lock now
+                </button>
+              </div>
+            </section>
+          ) : (
+            <p className="text-sm text-slate-400">
+              Encrypt stored chats, the search index, attachments, folders, personas, settings (including API keys)
+              and the usage log with a key derived from a passphrase. The passphrase is asked when the app opens and
+              after it locks itself.
+            </p>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <h3 className="text-sm font-medium text-slate-300">{vault.enabled ? 'Change passphrase' : 'Enable encryption'}</h3>
+            {vault.enabled && (
+              <input
+                type="password"
+                value={current}
+                onChange={e => setCurrent(e.target.value)}
+                placeholder="Current passphrase"
+                autoComplete="current-password"
+                disabled={isBusy}
+                className={inputClass}
+              />
+            )}
+            <input
+              type="password"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              placeholder={vault.enabled ? 'New passphrase' : 'Passphrase'}
+              autoComplete="new-password"
+              disabled={isBusy}
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={e => setConfirmation(e.target.value)}
+              placeholder="Repeat passphrase"
+              autoComplete="new-password"
+              disabled={isBusy}
+              className={inputClass}
+            />
+            <p className="text-xs text-amber-400/80">
+              There is no way to recover a forgotten passphrase: the encrypted chats can no longer be read.
+            </p>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {isDone && !isBusy && (
+              <p className="text-sm text-emerald-400">All stored data is encrypted.</p>
+            )}
+            <div className="flex items-center justify-end gap-3">
+              {progress && (
+                <span className="text-xs text-slate-400 font-mono">
+                  Encrypting{progress.total > 0 ? ` ${progress.done}/${progress.total}` : '...'}
+                </span>
+              )}
+              <button
+                type="submit"
+                disabled={isBusy || !passphrase || (vault.enabled && !current)}
+                className={`${buttonClass} bg-cyan-600 hover:bg-cyan-500 text-white`}
+              >
+                {vault.enabled ? 'Change passphrase' : 'Enable encryption'}
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">
+              Existing data is re-encrypted in place. The browser may keep earlier copies on disk until it compacts its storage.
+            </p>
+            <p className="text-xs text-slate-500">
+              Not encrypted: record ids, the number and order of messages, which folder a chat is in,
+              the times of usage entries and the dates and sizes of attachments.
+            </p>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionSettings;
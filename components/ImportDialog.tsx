@@ -0,0 +1,54 @@
+import React from 'react';
+import { ImportStrategy } from '../types';
+
+interface ImportDialogProps {
+  totalCount: number;
+  collisionCount: number;
+  onChoose: (strategy: ImportStrategy) => void;
+  onCancel: () => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ totalCount, collisionCount, onChoose, onCancel }) => {
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-white mb-2">Import conversations</h2>
+        <p className="text-sm text-slate-400 mb-6">
+          {collisionCount} of {totalCount} imported {totalCount === 1 ? 'chat already exists' : 'chats already exist'} in your history.
+          How should they be imported?
+        </p>
+
+        <div className="space-y-2 mb-6">
+          <button
+            onClick={() => onChoose('keep-both')}
+            className="w-full text-left px-4 py-3 rounded-xl bg-slate-900/60 border border-slate-700 hover:border-cyan-500/50 transition-colors"
+          >
+            <span className="block text-sm font-medium text-slate-100">Keep both</span>
+            <span className="block text-xs text-slate-500">Imported chats are added as separate copies.</span>
+          </button>
+          <button
+            onClick={() => onChoose('merge')}
+            className="w-full text-left px-4 py-3 rounded-xl bg-slate-900/60 border border-slate-700 hover:border-cyan-500/50 transition-colors"
+          >
+            <span className="block text-sm font-medium text-slate-100">Merge</span>
+            <span className="block text-xs text-slate-500">Messages missing from the existing chat are added to it.</span>
+          </button>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
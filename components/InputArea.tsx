@@ -1,9 +1,17 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Attachment } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Attachment, BudgetStatus, ContextSettings } from '../types';
+import { readFileAsAttachment } from '../services/attachmentStore';
+import AttachmentImage from './AttachmentImage';
+import { CONTEXT_POLICIES, estimateMessageTokens, formatTokenCount } from '../services/context';
 
 interface InputAreaProps {
-  onSendMessage: (text: string, attachments: Attachment[]) => void;
+  onSendMessage: (text: string, attachments: Attachment[]) => Promise<boolean>; // false: gönderilmedi, taslak kalır
+  onStop: () => void;
   isLoading: boolean;
+  isSessionLoading: boolean; // Açılan sohbetin mesajları okunurken gönderilemez; taslak korunur
+  contextTokens: number; // Sohbetin şu anki tahmini bağlam boyutu (taslak hariç)
+  contextSettings: ContextSettings;
+  budgetStatus: BudgetStatus;
 }
 
 // Add support for the Web Speech API types and SheetJS
@@ -15,10 +23,18 @@ declare global {
   }
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading }) => {
+const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, onStop, isLoading, isSessionLoading, contextTokens, contextSettings, budgetStatus }) => {
   const [input, setInput] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const draftTokens = useMemo(() => estimateMessageTokens({ text: input, attachments }), [input, attachments]);
+  const totalTokens = contextTokens + draftTokens;
+  const contextUsage = Math.min(totalTokens / contextSettings.limit, 1);
+  const isOverLimit = totalTokens > contextSettings.limit;
+  const policyLabel = CONTEXT_POLICIES.find(p => p.id === contextSettings.policy)?.label;
+  const isBlocked = budgetStatus.level === 'blocked';
+  const canSend = (input.trim().length > 0 || attachments.length > 0) && !isLoading && !isSessionLoading && !isSending && !isBlocked;
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const recognitionRef = useRef<any>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -81,109 +97,12 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading }) => {
     }
   };
 
-  const readExcelAsCSV = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-            const data = e.target?.result;
-            if (window.XLSX) {
-                const workbook = window.XLSX.read(data, { type: 'array' });
-                let combinedText = "";
-                // Read all sheets
-                workbook.SheetNames.forEach((sheetName: string) => {
-                    const sheet = workbook.Sheets[sheetName];
-                    const csv = window.XLSX.utils.sheet_to_csv(sheet);
-                    combinedText += `--- Sheet: ${sheetName} ---\n${csv}\n\n`;
-                });
-                resolve(combinedText);
-            } else {
-                reject(new Error("XLSX library not loaded"));
-            }
-        } catch (error) {
-            reject(error);
-        }
-      };
-      reader.onerror = reject;
-      reader.readAsArrayBuffer(file);
-    });
-  };
-
-  const readFileAsText = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsText(file);
-    });
-  };
-
-  const readFileAsBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   const processFiles = async (files: File[]) => {
     const newAttachments: Attachment[] = [];
 
     for (const file of files) {
       try {
-        let attachment: Attachment;
-        const extension = file.name.split('.').pop()?.toLowerCase();
-        
-        // 1. Excel Support
-        if (extension === 'xlsx' || extension === 'xls' || file.type.includes('sheet') || file.type.includes('excel')) {
-             const csvContent = await readExcelAsCSV(file);
-             const base64Content = btoa(unescape(encodeURIComponent(csvContent)));
-             attachment = {
-                 name: file.name,
-                 mimeType: 'text/csv',
-                 data: base64Content
-             };
-        } 
-        // 2. Code & Text Support
-        else if (['json', 'js', 'jsx', 'ts', 'tsx', 'py', 'java', 'html', 'css', 'md', 'txt', 'xml', 'csv'].includes(extension || '')) {
-             const textContent = await readFileAsText(file);
-             const base64Content = btoa(unescape(encodeURIComponent(textContent)));
-             
-             let mimeType = 'text/plain';
-             if (extension === 'json') mimeType = 'application/json';
-             else if (extension === 'xml') mimeType = 'application/xml';
-             else if (extension === 'js' || extension === 'jsx') mimeType = 'text/javascript';
-             else if (extension === 'ts' || extension === 'tsx') mimeType = 'text/typescript';
-             else if (extension === 'py') mimeType = 'text/x-python';
-             else if (extension === 'html') mimeType = 'text/html';
-             else if (extension === 'css') mimeType = 'text/css';
-             else if (extension === 'md') mimeType = 'text/markdown';
-             else if (extension === 'csv') mimeType = 'text/csv';
-
-             attachment = {
-                 name: file.name,
-                 mimeType: mimeType,
-                 data: base64Content
-             };
-        }
-        // 3. PDF & Images (Native Binary Support)
-        else {
-            const base64Data = await readFileAsBase64(file);
-            const rawBase64 = base64Data.split(',')[1];
-            
-            // Explicitly handle PDF type if browser doesn't detect it perfectly
-            let mimeType = file.type;
-            if (extension === 'pdf' && !mimeType) mimeType = 'application/pdf';
-            
-            attachment = {
-                name: file.name,
-                mimeType: mimeType || 'application/octet-stream',
-                data: rawBase64
-            };
-        }
-        
-        newAttachments.push(attachment);
+        newAttachments.push(await readFileAsAttachment(file));
       } catch (err) {
         console.error("Error reading file:", err);
         alert(`Failed to read file ${file.name}`);
@@ -197,15 +116,20 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading }) => {
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
-  const handleSubmit = (e?: React.FormEvent) => {
+  // Taslak ancak mesaj kabul edilince silinir (ör. başka sekmede akan cevap uyarısı reddedilirse kalır)
+  const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if ((input.trim() || attachments.length > 0) && !isLoading) {
-      onSendMessage(input, attachments);
+    if (!canSend) return;
+    setIsSending(true);
+    try {
+      if (!(await onSendMessage(input, attachments))) return;
       setInput('');
       setAttachments([]);
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
       }
+    } finally {
+      setIsSending(false);
     }
   };
 
@@ -287,7 +211,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading }) => {
                 <div key={index} className="relative group bg-slate-800 border border-slate-700 rounded-xl p-2 flex items-center gap-2 max-w-[200px]">
                 <div className="w-8 h-8 flex-shrink-0 bg-slate-700 rounded-lg flex items-center justify-center overflow-hidden">
                     {iconType === 'image' ? (
-                    <img src={`data:${att.mimeType};base64,${att.data}`} alt={att.name} className="w-full h-full object-cover" />
+                    <AttachmentImage attachment={att} className="w-full h-full object-cover" />
                     ) : (
                     renderFileIcon(iconType)
                     )}
@@ -310,6 +234,14 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading }) => {
         </div>
       )}
 
+      {budgetStatus.message && (
+        <div className={`mb-2 px-3 py-2 rounded-xl text-xs border ${
+          isBlocked ? 'bg-red-900/20 border-red-500/30 text-red-300' : 'bg-amber-900/20 border-amber-500/30 text-amber-300'
+        }`}>
+          {budgetStatus.message}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="relative flex items-end gap-2 bg-slate-800/80 backdrop-blur-sm p-2 rounded-2xl border border-slate-700 shadow-xl">
         <input 
           type="file" 
@@ -341,7 +273,6 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading }) => {
           placeholder="Ask anything..."
           className="w-full bg-transparent text-slate-100 placeholder-slate-500 text-base p-3 focus:outline-none resize-none max-h-[200px] overflow-y-auto rounded-xl"
           rows={1}
-          disabled={isLoading}
         />
         
         {/* Microphone Button */}
@@ -370,28 +301,55 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading }) => {
           )}
         </button>
 
-        {/* Send Button */}
-        <button
-          type="submit"
-          disabled={(!input.trim() && attachments.length === 0) || isLoading}
-          className={`
-            p-3 rounded-xl transition-all duration-200 flex-shrink-0 mb-[1px]
-            ${(!input.trim() && attachments.length === 0) || isLoading 
-              ? 'bg-slate-700 text-slate-500 cursor-not-allowed' 
-              : 'bg-cyan-600 hover:bg-cyan-500 text-white shadow-lg shadow-cyan-900/20'
-            }
-          `}
-        >
-          {isLoading ? (
-            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-          ) : (
+        {/* Stop / Send Button */}
+        {isLoading ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="p-3 rounded-xl transition-all duration-200 flex-shrink-0 mb-[1px] bg-red-600 hover:bg-red-500 text-white shadow-lg shadow-red-900/20"
+            title="Stop generating"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+              <path fillRule="evenodd" d="M4.5 7.5a3 3 0 013-3h9a3 3 0 013 3v9a3 3 0 01-3 3h-9a3 3 0 01-3-3v-9z" clipRule="evenodd" />
+            </svg>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!canSend}
+            title={isBlocked ? budgetStatus.message : undefined}
+            className={`
+              p-3 rounded-xl transition-all duration-200 flex-shrink-0 mb-[1px]
+              ${!canSend
+                ? 'bg-slate-700 text-slate-500 cursor-not-allowed' 
+                : 'bg-cyan-600 hover:bg-cyan-500 text-white shadow-lg shadow-cyan-900/20'
+              }
+            `}
+          >
             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
               <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
             </svg>
-          )}
-        </button>
+          </button>
+        )}
       </form>
-      <div className="text-center mt-2 text-xs text-slate-500">
+      <div className="flex items-center justify-between gap-4 mt-2 px-2 text-[11px] text-slate-500">
+        <span className="font-mono">{draftTokens > 0 ? `~${formatTokenCount(draftTokens)} tokens` : ''}</span>
+        <div
+          className="flex items-center gap-2"
+          title={isOverLimit ? `Over the context limit: ${policyLabel?.toLowerCase()} will be applied` : 'Estimated context size of the next request'}
+        >
+          <span className={`font-mono ${isOverLimit ? 'text-amber-400' : ''}`}>
+            {formatTokenCount(totalTokens)} / {formatTokenCount(contextSettings.limit)}
+          </span>
+          <div className="w-24 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${isOverLimit ? 'bg-amber-400' : contextUsage > 0.8 ? 'bg-yellow-500' : 'bg-cyan-500'}`}
+              style={{ width: `${contextUsage * 100}%` }}
+            />
+          </div>
+        </div>
+      </div>
+      <div className="text-center mt-1 text-xs text-slate-500">
         Gemini 3 Pro Preview can make mistakes. Consider checking important information.
       </div>
     </div>
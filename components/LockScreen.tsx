@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { unlockVault } from '../services/storage';
+import { WrongPassphraseError } from '../services/vault';
+
+/**
+ * Shown instead of the app while the encrypted history is locked.
+ */
+const LockScreen: React.FC = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      // Başarılı olunca VaultGate uygulamayı açar; bu bileşen kaldırılır
+      await unlockVault(passphrase);
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? err.message : 'The history could not be unlocked.');
+      console.error(err);
+      setPassphrase('');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-900 text-slate-100 p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm flex flex-col items-center gap-4">
+        <div className="w-12 h-12 rounded-xl bg-gradient-to-tr from-cyan-500 to-blue-600 flex items-center justify-center shadow-lg shadow-cyan-900/50">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6 text-white">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+          </svg>
+        </div>
+        <div className="text-center">
+          <h1 className="text-lg font-semibold text-white">History locked</h1>
+          <p className="text-sm text-slate-400">Enter your passphrase to decrypt your chats.</p>
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          autoComplete="current-password"
+          disabled={isUnlocking}
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full px-4 py-2 rounded-lg text-sm font-medium bg-cyan-600 hover:bg-cyan-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,118 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Attachment } from '../types';
+import { readFileAsAttachment } from '../services/attachmentStore';
+
+interface MessageEditorProps {
+  initialText: string;
+  initialAttachments: Attachment[];
+  onSave: (text: string, attachments: Attachment[]) => void;
+  onCancel: () => void;
+}
+
+const MessageEditor: React.FC<MessageEditorProps> = ({ initialText, initialAttachments, onSave, onCancel }) => {
+  const [text, setText] = useState(initialText);
+  const [attachments, setAttachments] = useState<Attachment[]>(initialAttachments);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+      textareaRef.current.style.height = `${Math.min(textareaRef.current.scrollHeight, 300)}px`;
+    }
+  }, [text]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    const files: File[] = Array.from(e.target.files);
+    const newAttachments: Attachment[] = [];
+    for (const file of files) {
+      try {
+        newAttachments.push(await readFileAsAttachment(file));
+      } catch (err) {
+        console.error("Error reading file:", err);
+        alert(`Failed to read file ${file.name}`);
+      }
+    }
+    setAttachments(prev => [...prev, ...newAttachments]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const canSave = text.trim().length > 0 || attachments.length > 0;
+
+  const handleSave = () => {
+    if (canSave) onSave(text, attachments);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSave();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="w-full min-w-[280px] bg-slate-800 border border-cyan-500/40 rounded-2xl p-3 shadow-xl">
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {attachments.map((att, index) => (
+            <div key={index} className="flex items-center gap-2 bg-slate-900/60 rounded-lg pl-2 pr-1 py-1 max-w-[200px]">
+              <span className="text-xs text-slate-200 truncate">{att.name}</span>
+              <button
+                onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                className="p-0.5 text-slate-500 hover:text-red-400"
+                title="Remove attachment"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="w-full bg-transparent text-slate-100 text-sm sm:text-base focus:outline-none resize-none"
+        rows={2}
+        autoFocus
+      />
+
+      <div className="flex items-center justify-between mt-2">
+        <input type="file" multiple ref={fileInputRef} className="hidden" onChange={handleFileSelect} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs text-slate-400 hover:text-slate-200 flex items-center gap-1"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+          </svg>
+          Add files
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-xs rounded-lg text-slate-300 hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-3 py-1.5 text-xs rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white disabled:bg-slate-700 disabled:text-slate-500 transition-colors"
+          >
+            Save & Submit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageEditor;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Persona } from '../types';
+import { TEMPLATE_VARIABLES } from '../services/systemPrompt';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const emptyPersona = (): Persona => ({
+  id: `persona-${Date.now()}`,
+  name: '',
+  systemPrompt: "You are a helpful assistant.\nToday's date is {{date}}.",
+  greeting: '',
+  createdAt: Date.now(),
+});
+
+const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Persona>(() => personas[0] || emptyPersona());
+
+  const isNew = !personas.some(p => p.id === draft.id);
+  const canSave = draft.name.trim().length > 0 && draft.systemPrompt.trim().length > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({ ...draft, name: draft.name.trim(), greeting: draft.greeting?.trim() || undefined });
+  };
+
+  const handleDelete = () => {
+    onDelete(draft.id);
+    setDraft(personas.find(p => p.id !== draft.id) || emptyPersona());
+  };
+
+  const setDefault = (key: 'thinkingBudget' | 'temperature', value: string) => {
+    const defaults = { ...(draft.defaults || {}) };
+    if (value === '') {
+      delete defaults[key];
+    } else {
+      defaults[key] = Number(value);
+    }
+    setDraft({ ...draft, defaults });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[80vh] flex bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Persona List */}
+        <div className="w-56 flex-shrink-0 border-r border-slate-700 flex flex-col">
+          <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-white">Personas</h2>
+            <button
+              onClick={() => setDraft(emptyPersona())}
+              className="p-1 text-slate-400 hover:text-cyan-400"
+              title="New persona"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+            {personas.map(persona => (
+              <button
+                key={persona.id}
+                onClick={() => setDraft(persona)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate transition-colors ${
+                  persona.id === draft.id
+                    ? 'bg-cyan-900/20 text-cyan-400 border border-cyan-500/10'
+                    : 'text-slate-400 hover:bg-slate-700/50 hover:text-slate-200 border border-transparent'
+                }`}
+              >
+                {persona.name}
+              </button>
+            ))}
+            {isNew && (
+              <div className="px-3 py-2 rounded-lg text-sm text-cyan-400 bg-cyan-900/20 border border-cyan-500/10 italic truncate">
+                {draft.name || 'New persona'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Editor */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex-1 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+            <div>
+              <label htmlFor="persona-name" className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+              <input
+                id="persona-name"
+                type="text"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="persona-prompt" className="block text-sm font-medium text-slate-300 mb-2">System prompt</label>
+              <textarea
+                id="persona-prompt"
+                value={draft.systemPrompt}
+                onChange={e => setDraft({ ...draft, systemPrompt: e.target.value })}
+                rows={8}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm font-mono text-slate-100 focus:outline-none focus:border-cyan-500 resize-y"
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                Variables: {TEMPLATE_VARIABLES.map(v => (
+                  <code key={v.name} className="mr-2 text-cyan-400" title={v.description}>{`{{${v.name}}}`}</code>
+                ))}
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="persona-greeting" className="block text-sm font-medium text-slate-300 mb-2">Greeting (optional)</label>
+              <textarea
+                id="persona-greeting"
+                value={draft.greeting || ''}
+                onChange={e => setDraft({ ...draft, greeting: e.target.value })}
+                rows={2}
+                placeholder="Shown as the first message of a new chat"
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500 resize-y"
+              />
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Default settings</h3>
+              <div className="flex items-center gap-3">
+                <label htmlFor="persona-thinking" className="text-xs text-slate-400 w-32">Thinking budget</label>
+                <input
+                  id="persona-thinking"
+                  type="number"
+                  min={0}
+                  max={32768}
+                  step={1024}
+                  value={draft.defaults?.thinkingBudget ?? ''}
+                  placeholder="Inherit"
+                  onChange={e => setDefault('thinkingBudget', e.target.value)}
+                  className="w-32 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500"
+                />
+              </div>
+              <div className="flex items-center gap-3 mt-2">
+                <label htmlFor="persona-temperature" className="text-xs text-slate-400 w-32">Temperature</label>
+                <input
+                  id="persona-temperature"
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  value={draft.defaults?.temperature ?? ''}
+                  placeholder="Inherit"
+                  onChange={e => setDefault('temperature', e.target.value)}
+                  className="w-32 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="p-4 border-t border-slate-700 flex items-center gap-2">
+            {!isNew && !draft.isBuiltIn && (
+              <button
+                onClick={handleDelete}
+                className="px-3 py-2 text-sm rounded-lg text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                Delete
+              </button>
+            )}
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm rounded-lg text-slate-300 hover:bg-slate-700 transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!canSave}
+                className="px-4 py-2 text-sm rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white disabled:bg-slate-700 disabled:text-slate-500 transition-colors"
+              >
+                {isNew ? 'Create' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { SessionMeta } from '../types';
+import { parseTags } from '../services/folders';
+
+export type SessionPatch = Partial<Pick<SessionMeta, 'pinned' | 'archived' | 'folderId' | 'tags'>>;
+
+// Sürükle-bırak ile klasöre taşımada oturum id'si bu tipte taşınır
+export const SESSION_DRAG_TYPE = 'application/x-session-id';
+
+interface SessionItemProps {
+  session: SessionMeta;
+  isActive: boolean;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onClick: () => void;
+  onRename: (title: string) => void;
+  onDelete: (e: React.MouseEvent) => void;
+  onOrganize: (patch: SessionPatch) => void;
+}
+
+const actionClass = 'p-1 hover:bg-slate-700/50 rounded transition-colors';
+
+/**
+ * One chat in the sidebar list with its hover actions: pin, tags, archive, rename and delete.
+ * The row can be dragged onto a folder.
+ */
+const SessionItem: React.FC<SessionItemProps> = ({
+  session,
+  isActive,
+  isSelecting,
+  isSelected,
+  onClick,
+  onRename,
+  onDelete,
+  onOrganize,
+}) => {
+  // Satır içinde ya başlık ya da etiketler düzenlenir
+  const [editing, setEditing] = useState<'title' | 'tags' | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEdit = (e: React.MouseEvent, field: 'title' | 'tags') => {
+    e.stopPropagation();
+    setEditing(field);
+    setDraft(field === 'title' ? session.title : session.tags.join(', '));
+  };
+
+  const handleSave = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (editing === 'title' && draft.trim()) {
+      onRename(draft.trim());
+    } else if (editing === 'tags') {
+      onOrganize({ tags: parseTags(draft) });
+    }
+    setEditing(null);
+  };
+
+  const handleAction = (e: React.MouseEvent, patch: SessionPatch) => {
+    e.stopPropagation();
+    onOrganize(patch);
+  };
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  return (
+    <div
+      onClick={() => !editing && onClick()}
+      draggable={!editing && !isSelecting}
+      onDragStart={handleDragStart}
+      className={`
+          group relative flex items-center gap-3 px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-200
+          ${isActive && !editing
+              ? 'bg-cyan-900/20 text-cyan-400 border border-cyan-500/10'
+              : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200 border border-transparent'
+          }
+      `}
+    >
+      {editing ? (
+        <form
+          onSubmit={handleSave}
+          className="flex items-center w-full gap-2"
+          onClick={e => e.stopPropagation()}
+        >
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={editing === 'tags' ? 'work, ideas, ...' : undefined}
+            className="flex-1 bg-slate-950 border border-cyan-500/50 rounded px-2 py-1 text-sm text-white focus:outline-none"
+            autoFocus
+            onBlur={() => handleSave()}
+          />
+        </form>
+      ) : (
+        <>
+          {isSelecting ? (
+            <input
+              type="checkbox"
+              checked={isSelected}
+              readOnly
+              className="w-4 h-4 flex-shrink-0 accent-cyan-500 pointer-events-none"
+            />
+          ) : session.pinned ? (
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4 flex-shrink-0 text-cyan-500">
+              <path d="M16 3a1 1 0 01.7 1.7L15 6.4v4.2l2.7 2.7a1 1 0 01-.7 1.7h-4v5.5a1 1 0 01-2 0V15H7a1 1 0 01-.7-1.7L9 10.6V6.4L7.3 4.7A1 1 0 018 3h8z" />
+            </svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 flex-shrink-0">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 8.25h9m-9 3H12m-9.75 1.51c0 1.6 1.123 2.994 2.707 3.227 1.129.166 2.27.293 3.423.379.35.026.67.21.865.501L12 21l2.755-4.133a1.14 1.14 0 01.865-.501 48.172 48.172 0 003.423-.379c1.584-.233 2.707-1.626 2.707-3.228V6.741c0-1.602-1.123-2.995-2.707-3.228A48.394 48.394 0 0012 3c-2.392 0-4.744.175-7.043.513C3.373 3.746 2.25 5.14 2.25 6.741v6.018z" />
+            </svg>
+          )}
+          <div className="flex-1 min-w-0">
+            <span className="block text-sm truncate">{session.title}</span>
+            {session.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-0.5">
+                {session.tags.map(tag => (
+                  <span key={tag} className="text-[10px] text-slate-500">#{tag}</span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {!isSelecting && (
+          <div className="absolute right-2 flex items-center gap-0.5 bg-slate-800 rounded opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+                onClick={(e) => handleAction(e, { pinned: !session.pinned })}
+                className={`${actionClass} hover:text-cyan-400`}
+                title={session.pinned ? 'Unpin Chat' : 'Pin Chat'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill={session.pinned ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={1.5} className="w-3.5 h-3.5">
+                <path strokeLinejoin="round" d="M16 3a1 1 0 01.7 1.7L15 6.4v4.2l2.7 2.7a1 1 0 01-.7 1.7h-4v5.5a1 1 0 01-2 0V15H7a1 1 0 01-.7-1.7L9 10.6V6.4L7.3 4.7A1 1 0 018 3h8z" />
+              </svg>
+            </button>
+            <button
+                onClick={(e) => startEdit(e, 'tags')}
+                className={`${actionClass} hover:text-cyan-400`}
+                title="Edit Tags"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6z" />
+              </svg>
+            </button>
+            <button
+                onClick={(e) => handleAction(e, { archived: !session.archived })}
+                className={`${actionClass} hover:text-cyan-400`}
+                title={session.archived ? 'Restore from Archive' : 'Archive Chat'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5m8.25 3v6.75m0 0l-3-3m3 3l3-3M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z" />
+              </svg>
+            </button>
+            <button
+                onClick={(e) => startEdit(e, 'title')}
+                className={`${actionClass} hover:text-cyan-400`}
+                title="Rename Chat"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487zm0 0L19.5 7.125" />
+              </svg>
+            </button>
+            <button
+                onClick={onDelete}
+                className={`${actionClass} hover:text-red-400`}
+                title="Delete Chat"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                </svg>
+            </button>
+          </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionItem;
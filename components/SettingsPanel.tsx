@@ -1,21 +1,129 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { ContextPolicy, ContextSettings, GeminiConfig, ProviderId, ProviderSettings, SafetyCategory, SafetyThreshold, SettingsScope } from '../types';
+import { PROVIDERS, getProvider } from '../services/providers';
+import { CONTEXT_POLICIES } from '../services/context';
+import { TOOLS } from '../services/tools';
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '../services/safety';
 
 interface SettingsPanelProps {
-  thinkingBudget: number;
-  setThinkingBudget: (value: number) => void;
+  generationConfig: GeminiConfig;
+  onGenerationConfigChange: (patch: Partial<GeminiConfig>) => void;
+  overriddenKeys: (keyof GeminiConfig)[];
+  onResetOverrides: () => void;
+  providerSettings: ProviderSettings;
+  activeProviderSettings: ProviderSettings; // Mevcut sohbette gerçekten kullanılan ayar (kapsamdan bağımsız)
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  contextSettings: ContextSettings; // Her zaman genel (sohbete özel değil)
+  onContextSettingsChange: (settings: ContextSettings) => void;
+  scope: SettingsScope;
+  onScopeChange: (scope: SettingsScope) => void;
+  hasActiveSession: boolean;
   isOpen: boolean;
   toggleOpen: () => void;
 }
 
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value?: number;
+  min: number;
+  max?: number;
+  step: number;
+  isOverridden: boolean;
+  onChange: (value: number | undefined) => void;
+}
+
+// Boş bırakılan alan "varsayılan" demektir (undefined)
+const NumberField: React.FC<NumberFieldProps> = ({ id, label, value, min, max, step, isOverridden, onChange }) => (
+  <div className="flex items-center justify-between gap-3">
+    <label htmlFor={id} className="text-sm text-slate-300 flex items-center gap-1.5">
+      {label}
+      {isOverridden && <span className="w-1.5 h-1.5 rounded-full bg-cyan-400" title="Overridden for this chat" />}
+    </label>
+    <input
+      id={id}
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value ?? ''}
+      placeholder="Default"
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      className="w-28 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm font-mono text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500"
+    />
+  </div>
+);
+
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ 
-  thinkingBudget, 
-  setThinkingBudget,
+  generationConfig,
+  onGenerationConfigChange,
+  overriddenKeys,
+  onResetOverrides,
+  providerSettings,
+  activeProviderSettings,
+  onProviderSettingsChange,
+  contextSettings,
+  onContextSettingsChange,
+  scope,
+  onScopeChange,
+  hasActiveSession,
   isOpen,
   toggleOpen
 }) => {
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelsError, setModelsError] = useState<string | null>(null);
+
+  const provider = getProvider(providerSettings.provider);
+  const activeProvider = getProvider(activeProviderSettings.provider);
+  const isSessionScope = hasActiveSession && scope === 'session';
+  const isOverridden = (key: keyof GeminiConfig) => isSessionScope && overriddenKeys.includes(key);
+  const stopSequencesText = (generationConfig.stopSequences || []).join('\n');
+  // Ayarlanmadıysa yalnızca Gemini'de açık
+  const toolsEnabled = generationConfig.toolsEnabled ?? provider.id === 'gemini';
+
+  // Her satır bir durdurma dizisi; boş satırlar atlanır
+  const handleStopSequencesBlur = (text: string) => {
+    const sequences = text.split('\n').filter(line => line.length > 0);
+    if (sequences.join('\n') === stopSequencesText) return;
+    onGenerationConfigChange({ stopSequences: sequences.length > 0 ? sequences : undefined });
+  };
+
+  // Boş değer kategoriyi sağlayıcının varsayılanına bırakır
+  const handleSafetyChange = (category: SafetyCategory, threshold: SafetyThreshold | '') => {
+    const next = { ...generationConfig.safetySettings };
+    if (threshold) next[category] = threshold;
+    else delete next[category];
+    onGenerationConfigChange({ safetySettings: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setAvailableModels([]);
+    setModelsError(null);
+    onProviderSettingsChange({
+      ...providerSettings,
+      provider: id,
+      model: PROVIDERS[id].defaultModel,
+    });
+  };
+
+  const handleLoadModels = async () => {
+    if (!provider.listModels) return;
+    setIsLoadingModels(true);
+    setModelsError(null);
+    try {
+      setAvailableModels(await provider.listModels(providerSettings));
+    } catch (error: any) {
+      console.error("Model listesi alınamadı:", error);
+      setModelsError(error.message || 'Could not load models.');
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
   return (
     <div className={`fixed inset-y-0 right-0 w-80 bg-slate-800 border-l border-slate-700 shadow-2xl transform transition-transform duration-300 ease-in-out z-50 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
-      <div className="p-6 h-full flex flex-col">
+      <div className="p-6 h-full flex flex-col overflow-y-auto">
         <div className="flex justify-between items-center mb-8">
           <h2 className="text-xl font-semibold text-white">Model Settings</h2>
           <button 
@@ -28,13 +136,193 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           </button>
         </div>
 
+        {hasActiveSession && (
+          <div className="mb-6">
+            <div className="flex p-1 bg-slate-900 rounded-lg border border-slate-700">
+              {([['session', 'This chat'], ['global', 'Defaults']] as [SettingsScope, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => onScopeChange(value)}
+                  className={`flex-1 py-1.5 text-sm rounded-md transition-colors ${
+                    scope === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {isSessionScope && overriddenKeys.length > 0 && (
+              <button
+                onClick={onResetOverrides}
+                className="mt-2 text-xs text-cyan-400 hover:text-cyan-300"
+              >
+                Reset this chat to defaults
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="mb-8 space-y-4">
+          <div>
+            <label htmlFor="provider" className="block text-sm font-medium text-slate-300 mb-2">
+              Provider
+            </label>
+            <select
+              id="provider"
+              value={providerSettings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+            >
+              {Object.values(PROVIDERS).map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {providerSettings.provider === 'openai' && (
+            <div>
+              <label htmlFor="base-url" className="block text-sm font-medium text-slate-300 mb-2">
+                Base URL
+              </label>
+              <input
+                id="base-url"
+                type="text"
+                value={providerSettings.baseUrl || ''}
+                placeholder="http://localhost:11434/v1"
+                onChange={(e) => onProviderSettingsChange({ ...providerSettings, baseUrl: e.target.value })}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label htmlFor="model" className="text-sm font-medium text-slate-300">
+                Model
+              </label>
+              {provider.listModels && (
+                <button
+                  onClick={handleLoadModels}
+                  disabled={isLoadingModels}
+                  className="text-xs text-cyan-400 hover:text-cyan-300 disabled:text-slate-500"
+                >
+                  {isLoadingModels ? 'Loading...' : 'Load models'}
+                </button>
+              )}
+            </div>
+            <input
+              id="model"
+              type="text"
+              list="model-options"
+              value={providerSettings.model}
+              placeholder={provider.defaultModel}
+              onChange={(e) => onProviderSettingsChange({ ...providerSettings, model: e.target.value })}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm font-mono text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500"
+            />
+            <datalist id="model-options">
+              {availableModels.map(m => <option key={m} value={m} />)}
+            </datalist>
+            {modelsError && <p className="mt-1 text-xs text-red-400">{modelsError}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="api-key" className="block text-sm font-medium text-slate-300 mb-2">
+              API Key
+            </label>
+            <input
+              id="api-key"
+              type="password"
+              value={providerSettings.apiKey || ''}
+              placeholder={providerSettings.provider === 'gemini' ? 'Uses GEMINI_API_KEY if empty' : 'Not needed for local servers'}
+              onChange={(e) => onProviderSettingsChange({ ...providerSettings, apiKey: e.target.value })}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500"
+            />
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {isSessionScope
+              ? 'Changes apply to the current chat only.'
+              : 'Saved as defaults for new chats and for settings a chat does not override.'}
+          </p>
+        </div>
+
+        <div className="mb-8 space-y-3">
+          <h3 className="text-sm font-medium text-slate-300">Sampling</h3>
+          <NumberField
+            id="temperature"
+            label="Temperature"
+            value={generationConfig.temperature}
+            min={0}
+            max={2}
+            step={0.05}
+            isOverridden={isOverridden('temperature')}
+            onChange={(value) => onGenerationConfigChange({ temperature: value })}
+          />
+          <NumberField
+            id="top-p"
+            label="Top P"
+            value={generationConfig.topP}
+            min={0}
+            max={1}
+            step={0.05}
+            isOverridden={isOverridden('topP')}
+            onChange={(value) => onGenerationConfigChange({ topP: value })}
+          />
+          <NumberField
+            id="top-k"
+            label="Top K"
+            value={generationConfig.topK}
+            min={1}
+            step={1}
+            isOverridden={isOverridden('topK')}
+            onChange={(value) => onGenerationConfigChange({ topK: value })}
+          />
+          <NumberField
+            id="max-output-tokens"
+            label="Max output tokens"
+            value={generationConfig.maxOutputTokens}
+            min={1}
+            step={256}
+            isOverridden={isOverridden('maxOutputTokens')}
+            onChange={(value) => onGenerationConfigChange({ maxOutputTokens: value })}
+          />
+          <NumberField
+            id="seed"
+            label="Seed"
+            value={generationConfig.seed}
+            min={0}
+            step={1}
+            isOverridden={isOverridden('seed')}
+            onChange={(value) => onGenerationConfigChange({ seed: value })}
+          />
+          <div>
+            <label htmlFor="stop-sequences" className="text-sm text-slate-300 flex items-center gap-1.5 mb-2">
+              Stop sequences
+              {isOverridden('stopSequences') && <span className="w-1.5 h-1.5 rounded-full bg-cyan-400" title="Overridden for this chat" />}
+            </label>
+            <textarea
+              key={`${scope}-${stopSequencesText}`}
+              id="stop-sequences"
+              rows={2}
+              defaultValue={stopSequencesText}
+              placeholder="One per line"
+              onBlur={(e) => handleStopSequencesBlur(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm font-mono text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500 resize-y"
+            />
+          </div>
+          <p className="text-xs text-slate-500">
+            Leave a field empty to use the model's default.
+          </p>
+        </div>
+
         <div className="mb-8">
           <div className="flex justify-between items-center mb-2">
-            <label htmlFor="thinking-budget" className="text-sm font-medium text-slate-300">
+            <label htmlFor="thinking-budget" className="text-sm font-medium text-slate-300 flex items-center gap-1.5">
               Thinking Budget
+              {isOverridden('thinkingBudget') && <span className="w-1.5 h-1.5 rounded-full bg-cyan-400" title="Overridden for this chat" />}
             </label>
             <span className="text-xs font-mono bg-slate-900 px-2 py-1 rounded text-cyan-400">
-              {thinkingBudget} tokens
+              {generationConfig.thinkingBudget} tokens
             </span>
           </div>
           <input
@@ -43,19 +331,101 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             min="0"
             max="32768"
             step="1024"
-            value={thinkingBudget}
-            onChange={(e) => setThinkingBudget(Number(e.target.value))}
+            value={generationConfig.thinkingBudget}
+            onChange={(e) => onGenerationConfigChange({ thinkingBudget: Number(e.target.value) })}
             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
           />
           <p className="mt-2 text-xs text-slate-500">
-            Allocates tokens for the model's internal reasoning process. Higher values allow for more complex problem solving. Set to 0 to disable thinking.
+            Allocates tokens for the model's internal reasoning process. Higher values allow for more complex problem solving. Set to 0 to disable thinking. Only used by Gemini.
           </p>
         </div>
 
+        <div className="mb-8">
+          <label className="flex items-center justify-between gap-3 cursor-pointer">
+            <span className="text-sm font-medium text-slate-300 flex items-center gap-1.5">
+              Tools (function calling)
+              {isOverridden('toolsEnabled') && <span className="w-1.5 h-1.5 rounded-full bg-cyan-400" title="Overridden for this chat" />}
+            </span>
+            <input
+              type="checkbox"
+              checked={toolsEnabled}
+              onChange={(e) => onGenerationConfigChange({ toolsEnabled: e.target.checked })}
+              className="w-4 h-4 accent-cyan-500"
+            />
+          </label>
+          <p className="mt-2 text-xs text-slate-500">
+            Lets the model call local tools: {TOOLS.map(t => t.name).join(', ')}. On by default for Gemini; many local servers reject tool definitions, so it is off for them unless enabled here.
+          </p>
+        </div>
+
+        <div className="mb-8 space-y-3">
+          <h3 className="text-sm font-medium text-slate-300 flex items-center gap-1.5">
+            Safety filters
+            {isOverridden('safetySettings') && <span className="w-1.5 h-1.5 rounded-full bg-cyan-400" title="Overridden for this chat" />}
+          </h3>
+          {SAFETY_CATEGORIES.map(category => (
+            <div key={category.id} className="flex items-center justify-between gap-3">
+              <label htmlFor={`safety-${category.id}`} className="text-sm text-slate-300">{category.label}</label>
+              <select
+                id={`safety-${category.id}`}
+                value={generationConfig.safetySettings?.[category.id] || ''}
+                onChange={(e) => handleSafetyChange(category.id, e.target.value as SafetyThreshold | '')}
+                className="w-48 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+              >
+                <option value="">Default</option>
+                {SAFETY_THRESHOLDS.map(t => (
+                  <option key={t.id} value={t.id}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <p className="text-xs text-slate-500">
+            How strictly answers are blocked per harm category. Default leaves the model's own threshold. Only used by Gemini.
+          </p>
+        </div>
+
+        <div className="mb-8 space-y-3">
+          <h3 className="text-sm font-medium text-slate-300">Context window</h3>
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="context-limit" className="text-sm text-slate-300">Limit (tokens)</label>
+            <input
+              id="context-limit"
+              type="number"
+              min={1000}
+              step={1000}
+              value={contextSettings.limit}
+              onChange={(e) => {
+                const limit = Number(e.target.value);
+                if (limit > 0) onContextSettingsChange({ ...contextSettings, limit });
+              }}
+              className="w-28 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm font-mono text-slate-100 focus:outline-none focus:border-cyan-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="context-policy" className="block text-sm text-slate-300 mb-2">When the limit is reached</label>
+            <select
+              id="context-policy"
+              value={contextSettings.policy}
+              onChange={(e) => onContextSettingsChange({ ...contextSettings, policy: e.target.value as ContextPolicy })}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+            >
+              {CONTEXT_POLICIES.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            <p className="mt-2 text-xs text-slate-500">
+              {CONTEXT_POLICIES.find(p => p.id === contextSettings.policy)?.description} Applies to all chats.
+            </p>
+          </div>
+        </div>
+
         <div className="mt-auto">
              <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700">
                 <p className="text-xs text-slate-400">
-                    <span className="font-semibold text-cyan-400">Model:</span> gemini-3-pro-preview
+                    <span className="font-semibold text-cyan-400">Model:</span> {activeProviderSettings.model || activeProvider.defaultModel}
+                </p>
+                <p className="text-xs text-slate-500 mt-1">
+                    {activeProvider.label} · {hasActiveSession ? 'current chat' : 'next new chat'}
                 </p>
              </div>
         </div>
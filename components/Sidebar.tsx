@@ -1,32 +1,132 @@
-import React, { useState, useEffect } from 'react';
-import { ChatSession } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ExportFormat, Folder, SearchResult, SessionMeta } from '../types';
+import { searchSessions } from '../services/storage';
+import { getSnippet } from '../services/search';
+import { createFolder, getAllTags, hasAllTags } from '../services/folders';
+import SessionItem, { SESSION_DRAG_TYPE, SessionPatch } from './SessionItem';
+
+// Klasörsüz listenin bırakma hedefi anahtarı
+const UNFILED = 'unfiled';
 
 interface SidebarProps {
-  sessions: ChatSession[];
+  sessions: SessionMeta[];
+  folders: Folder[];
   currentSessionId: string | null;
   onSelectSession: (id: string) => void;
   onNewChat: () => void;
   onDeleteSession: (id: string, e: React.MouseEvent) => void;
   onRenameSession: (id: string, newTitle: string) => void;
+  onOrganizeSession: (id: string, patch: SessionPatch) => void;
+  onSaveFolder: (folder: Folder) => void;
+  onDeleteFolder: (id: string) => void;
+  onOpenSearchResult: (sessionId: string, messageId?: string) => void;
+  onExportSessions: (ids: string[], format: ExportFormat) => void;
+  onImportFile: (file: File) => void;
+  onRetitleAll: () => void;
+  retitleProgress: { done: number; total: number } | null;
   isOpen: boolean;
   onClose: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
   sessions,
+  folders,
   currentSessionId,
   onSelectSession,
   onNewChat,
   onDeleteSession,
   onRenameSession,
+  onOrganizeSession,
+  onSaveFolder,
+  onDeleteFolder,
+  onOpenSearchResult,
+  onExportSessions,
+  onImportFile,
+  onRetitleAll,
+  retitleProgress,
   isOpen,
   onClose
 }) => {
-  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
-  const [editTitle, setEditTitle] = useState('');
+  const [view, setView] = useState<'chats' | 'archive'>('chats');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  // Yeni (id: null) ya da yeniden adlandırılan klasör
+  const [folderDraft, setFolderDraft] = useState<{ id: string | null; name: string } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  // Dışa aktarma için çoklu seçim modu
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Yazarken her tuşta değil, kısa bir beklemeden sonra ara
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const results = await searchSessions(query);
+      if (!cancelled) {
+        setSearchResults(results);
+        setIsSearching(false);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, sessions]);
+
+  const handleOpenResult = (result: SearchResult) => {
+    onOpenSearchResult(result.sessionId, result.messageId);
+    if (window.innerWidth < 768) onClose();
+  };
+
+  const renderSearchResults = () => {
+    if (isSearching && searchResults.length === 0) {
+      return <p className="text-center text-slate-500 text-sm mt-10">Searching...</p>;
+    }
+    if (searchResults.length === 0) {
+      return <p className="text-center text-slate-500 text-sm mt-10 px-4">No matches found.</p>;
+    }
+
+    return (
+      <div className="space-y-1">
+        {searchResults.map((result, i) => (
+          <button
+            key={`${result.sessionId}-${result.messageId || 'title'}-${i}`}
+            onClick={() => handleOpenResult(result)}
+            className="w-full text-left px-3 py-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200 border border-transparent transition-colors"
+          >
+            <div className="flex items-center gap-2 mb-0.5">
+              <span className="text-xs font-medium text-slate-200 truncate flex-1">{result.sessionTitle}</span>
+              {result.kind !== 'message' && (
+                <span className="text-[10px] uppercase tracking-wider text-slate-500">{result.kind}</span>
+              )}
+            </div>
+            <p className="text-xs leading-relaxed break-words line-clamp-3">
+              {getSnippet(result.text, searchQuery).map((segment, j) => (
+                segment.highlight
+                  ? <mark key={j} className="bg-cyan-500/30 text-cyan-200 rounded px-0.5">{segment.text}</mark>
+                  : <span key={j}>{segment.text}</span>
+              ))}
+            </p>
+          </button>
+        ))}
+      </div>
+    );
+  };
 
-  // Group sessions by date
-  const groupedSessions = sessions.slice().reverse().reduce((groups, session) => {
+  // Tarihe göre gruplama (klasörsüz sohbetler ve arşiv görünümü için)
+  const groupByDate = (list: SessionMeta[]) => list.reduce((groups, session) => {
     const date = new Date(session.createdAt);
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -45,26 +145,224 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
     groups[groupName].push(session);
     return groups;
-  }, {} as Record<string, ChatSession[]>);
+  }, {} as Record<string, SessionMeta[]>);
 
   const groupOrder = ['Today', 'Yesterday', 'Previous 7 Days', 'Older'];
 
-  const handleStartEdit = (e: React.MouseEvent, session: ChatSession) => {
-    e.stopPropagation();
-    setEditingSessionId(session.id);
-    setEditTitle(session.title);
+  // Görünüm (sohbetler / arşiv) ve etiket filtresi uygulanmış liste
+  const ordered = sessions.slice().reverse();
+  const inView = ordered.filter(s => (view === 'archive' ? s.archived : !s.archived));
+  const availableTags = getAllTags(inView);
+  const activeTags = tagFilter.filter(tag => availableTags.includes(tag));
+  const visibleSessions = inView.filter(s => hasAllTags(s, activeTags));
+  const archivedCount = sessions.filter(s => s.archived).length;
+
+  // Silinmiş ya da başka cihazdan gelmiş klasöre bağlı sohbetler klasörsüz sayılır
+  const folderIds = new Set(folders.map(f => f.id));
+  const pinnedSessions = visibleSessions.filter(s => s.pinned);
+  const unfiledSessions = visibleSessions.filter(s => !s.pinned && (!s.folderId || !folderIds.has(s.folderId)));
+  const groupedSessions = groupByDate(view === 'archive' ? visibleSessions : unfiledSessions);
+
+  const toggleTag = (tag: string) => {
+    setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
   };
 
-  const handleSaveEdit = (e?: React.FormEvent) => {
+  const handleSaveFolder = (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (editingSessionId && editTitle.trim()) {
-      onRenameSession(editingSessionId, editTitle.trim());
-      setEditingSessionId(null);
+    if (!folderDraft) return;
+    const name = folderDraft.name.trim();
+    const existing = folders.find(f => f.id === folderDraft.id);
+    if (name && existing) onSaveFolder({ ...existing, name });
+    else if (name && !folderDraft.id) onSaveFolder(createFolder(name));
+    setFolderDraft(null);
+  };
+
+  const handleDeleteFolder = (folder: Folder) => {
+    if (window.confirm(`Delete the folder "${folder.name}"? Its chats are kept and moved out of the folder.`)) {
+      onDeleteFolder(folder.id);
     }
   };
 
-  const handleCancelEdit = () => {
-    setEditingSessionId(null);
+  // Klasörler ve klasörsüz liste bırakma hedefidir; klasörsüz liste için folderId undefined
+  const dropProps = (folderId: string | undefined) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(SESSION_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folderId ?? UNFILED);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      const id = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+      setDropTarget(null);
+      if (!id) return;
+      e.preventDefault();
+      const session = sessions.find(s => s.id === id);
+      if (session && session.folderId !== folderId) onOrganizeSession(id, { folderId });
+    },
+  });
+
+  const dropHighlight = (target: string) => (
+    dropTarget === target ? 'ring-1 ring-cyan-500/50 bg-cyan-900/10' : 'ring-1 ring-transparent'
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const renderSessions = (list: SessionMeta[]) => (
+    <div className="space-y-1">
+      {list.map(session => (
+        <SessionItem
+          key={session.id}
+          session={session}
+          isActive={currentSessionId === session.id}
+          isSelecting={isSelecting}
+          isSelected={selectedIds.includes(session.id)}
+          onClick={() => {
+            if (isSelecting) {
+              toggleSelected(session.id);
+            } else {
+              onSelectSession(session.id);
+              if (window.innerWidth < 768) onClose();
+            }
+          }}
+          onRename={(title) => onRenameSession(session.id, title)}
+          onDelete={(e) => onDeleteSession(session.id, e)}
+          onOrganize={(patch) => onOrganizeSession(session.id, patch)}
+        />
+      ))}
+    </div>
+  );
+
+  const renderDateGroups = () => groupOrder.map(group => {
+    const groupSessions = groupedSessions[group];
+    if (!groupSessions || groupSessions.length === 0) return null;
+    return (
+      <div key={group}>
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider px-3 mb-2">{group}</h3>
+        {renderSessions(groupSessions)}
+      </div>
+    );
+  });
+
+  const renderFolderForm = () => (
+    <form onSubmit={handleSaveFolder} className="px-1">
+      <input
+        type="text"
+        value={folderDraft?.name || ''}
+        onChange={(e) => setFolderDraft(prev => prev && { ...prev, name: e.target.value })}
+        placeholder="Folder name"
+        className="w-full bg-slate-950 border border-cyan-500/50 rounded px-2 py-1 text-sm text-white focus:outline-none"
+        autoFocus
+        onBlur={() => handleSaveFolder()}
+      />
+    </form>
+  );
+
+  const renderFolder = (folder: Folder) => {
+    const folderSessions = visibleSessions.filter(s => !s.pinned && s.folderId === folder.id);
+    // Etiket filtresi varken boş klasörler gizlenir
+    if (activeTags.length > 0 && folderSessions.length === 0) return null;
+    if (folderDraft?.id === folder.id) return <div key={folder.id}>{renderFolderForm()}</div>;
+
+    return (
+      <div key={folder.id} {...dropProps(folder.id)} className={`rounded-lg transition-colors ${dropHighlight(folder.id)}`}>
+        <div
+          onClick={() => onSaveFolder({ ...folder, collapsed: !folder.collapsed })}
+          className="group flex items-center gap-2 px-3 py-1.5 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200 cursor-pointer"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-3 h-3 flex-shrink-0 transition-transform ${folder.collapsed ? '' : 'rotate-90'}`}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+          </svg>
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 flex-shrink-0">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12.75V12A2.25 2.25 0 014.5 9.75h15A2.25 2.25 0 0121.75 12v.75m-8.69-6.44l-2.12-2.12a1.5 1.5 0 00-1.061-.44H4.5A2.25 2.25 0 002.25 6v12a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9a2.25 2.25 0 00-2.25-2.25h-5.379a1.5 1.5 0 01-1.06-.44z" />
+          </svg>
+          <span className="text-sm truncate flex-1">{folder.name}</span>
+          <span className="text-[10px] text-slate-500 group-hover:hidden">{folderSessions.length}</span>
+          <div className="hidden group-hover:flex items-center gap-1">
+            <button
+              onClick={(e) => { e.stopPropagation(); setFolderDraft({ id: folder.id, name: folder.name }); }}
+              className="p-1 hover:text-cyan-400 hover:bg-slate-700/50 rounded transition-colors"
+              title="Rename Folder"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487zm0 0L19.5 7.125" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); handleDeleteFolder(folder); }}
+              className="p-1 hover:text-red-400 hover:bg-slate-700/50 rounded transition-colors"
+              title="Delete Folder"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+        {!folder.collapsed && (
+          <div className="pl-3 mt-1">
+            {folderSessions.length > 0
+              ? renderSessions(folderSessions)
+              : <p className="px-3 py-1 text-xs text-slate-600">Drag chats here</p>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderChats = () => (
+    <>
+      {pinnedSessions.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider px-3 mb-2">Pinned</h3>
+          {renderSessions(pinnedSessions)}
+        </div>
+      )}
+      <div>
+        <div className="flex items-center justify-between px-3 mb-2">
+          <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Folders</h3>
+          <button
+            onClick={() => setFolderDraft({ id: null, name: '' })}
+            className="text-slate-500 hover:text-cyan-400 transition-colors"
+            title="New Folder"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+            </svg>
+          </button>
+        </div>
+        <div className="space-y-1">
+          {folderDraft && !folderDraft.id && renderFolderForm()}
+          {folders.map(renderFolder)}
+          {folders.length === 0 && !folderDraft && (
+            <p className="px-3 text-xs text-slate-600">Create a folder and drag chats onto it.</p>
+          )}
+        </div>
+      </div>
+      <div {...dropProps(undefined)} className={`space-y-6 rounded-lg transition-colors min-h-[3rem] ${dropHighlight(UNFILED)}`}>
+        {renderDateGroups()}
+      </div>
+    </>
+  );
+
+  const handleStopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const handleExportSelected = (format: ExportFormat) => {
+    onExportSessions(selectedIds, format);
+    handleStopSelecting();
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportFile(file);
+    if (importInputRef.current) importInputRef.current.value = '';
   };
 
   return (
@@ -105,89 +403,135 @@ const Sidebar: React.FC<SidebarProps> = ({
             </button>
         </div>
 
+        {/* Search */}
+        <div className="px-4 pt-3">
+            <div className="relative">
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z" />
+                </svg>
+                <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+                    placeholder="Search all chats..."
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-8 pr-3 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-cyan-500/50"
+                />
+            </div>
+        </div>
+
+        {/* View and tag filter */}
+        {!searchQuery.trim() && sessions.length > 0 && (
+            <div className="px-4 pt-3 space-y-2">
+                <div className="flex gap-1 text-xs">
+                    {(['chats', 'archive'] as const).map(v => (
+                        <button
+                            key={v}
+                            onClick={() => setView(v)}
+                            className={`flex-1 px-2 py-1 rounded ${view === v ? 'bg-slate-800 text-slate-200' : 'text-slate-500 hover:text-slate-300'}`}
+                        >
+                            {v === 'chats' ? 'Chats' : `Archive${archivedCount > 0 ? ` (${archivedCount})` : ''}`}
+                        </button>
+                    ))}
+                </div>
+                {availableTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                        {availableTags.map(tag => (
+                            <button
+                                key={tag}
+                                onClick={() => toggleTag(tag)}
+                                className={`px-1.5 py-0.5 rounded text-[11px] border transition-colors ${activeTags.includes(tag)
+                                    ? 'bg-cyan-900/30 text-cyan-300 border-cyan-500/30'
+                                    : 'text-slate-400 border-slate-700 hover:border-slate-500'}`}
+                            >
+                                #{tag}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+
         {/* List */}
         <div className="flex-1 overflow-y-auto py-2 px-2 space-y-6 custom-scrollbar">
-            {sessions.length === 0 ? (
+            {searchQuery.trim() ? (
+                renderSearchResults()
+            ) : sessions.length === 0 ? (
                 <div className="text-center text-slate-500 text-sm mt-10 px-4">
                     <p>No previous chats.</p>
                     <p className="mt-2 text-xs">Your conversation history will appear here.</p>
                 </div>
+            ) : view === 'archive' && visibleSessions.length === 0 ? (
+                <p className="text-center text-slate-500 text-sm mt-10 px-4">No archived chats.</p>
+            ) : view === 'archive' ? (
+                renderDateGroups()
             ) : (
-                groupOrder.map(group => {
-                  const groupSessions = groupedSessions[group];
-                  if (!groupSessions || groupSessions.length === 0) return null;
-
-                  return (
-                    <div key={group}>
-                      <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider px-3 mb-2">{group}</h3>
-                      <div className="space-y-1">
-                        {groupSessions.map((session) => (
-                          <div 
-                              key={session.id}
-                              onClick={() => {
-                                  if (editingSessionId !== session.id) {
-                                    onSelectSession(session.id);
-                                    if (window.innerWidth < 768) onClose();
-                                  }
-                              }}
-                              className={`
-                                  group relative flex items-center gap-3 px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-200
-                                  ${currentSessionId === session.id && editingSessionId !== session.id
-                                      ? 'bg-cyan-900/20 text-cyan-400 border border-cyan-500/10' 
-                                      : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200 border border-transparent'
-                                  }
-                              `}
-                          >
-                              {editingSessionId === session.id ? (
-                                <form 
-                                  onSubmit={handleSaveEdit} 
-                                  className="flex items-center w-full gap-2"
-                                  onClick={e => e.stopPropagation()}
-                                >
-                                  <input
-                                    type="text"
-                                    value={editTitle}
-                                    onChange={(e) => setEditTitle(e.target.value)}
-                                    className="flex-1 bg-slate-950 border border-cyan-500/50 rounded px-2 py-1 text-sm text-white focus:outline-none"
-                                    autoFocus
-                                    onBlur={handleSaveEdit}
-                                  />
-                                </form>
-                              ) : (
-                                <>
-                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 flex-shrink-0">
-                                      <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 8.25h9m-9 3H12m-9.75 1.51c0 1.6 1.123 2.994 2.707 3.227 1.129.166 2.27.293 3.423.379.35.026.67.21.865.501L12 21l2.755-4.133a1.14 1.14 0 01.865-.501 48.172 48.172 0 003.423-.379c1.584-.233 2.707-1.626 2.707-3.228V6.741c0-1.602-1.123-2.995-2.707-3.228A48.394 48.394 0 0012 3c-2.392 0-4.744.175-7.043.513C3.373 3.746 2.25 5.14 2.25 6.741v6.018z" />
-                                  </svg>
-                                  <span className="text-sm truncate flex-1 pr-12">{session.title}</span>
-                                  
-                                  <div className="absolute right-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                    <button
-                                        onClick={(e) => handleStartEdit(e, session)}
-                                        className="p-1 hover:text-cyan-400 hover:bg-slate-700/50 rounded transition-colors"
-                                        title="Rename Chat"
-                                    >
-                                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
-                                        <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487zm0 0L19.5 7.125" />
-                                      </svg>
-                                    </button>
-                                    <button
-                                        onClick={(e) => onDeleteSession(session.id, e)}
-                                        className="p-1 hover:text-red-400 hover:bg-slate-700/50 rounded transition-colors"
-                                        title="Delete Chat"
-                                    >
-                                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-3.5 h-3.5">
-                                          <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-                                        </svg>
-                                    </button>
-                                  </div>
-                                </>
-                              )}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  );
-                })
+                renderChats()
+            )}
+        </div>
+
+        {/* Footer: Export / Import */}
+        <div className="p-3 border-t border-slate-800">
+            <input type="file" accept=".json,application/json" ref={importInputRef} className="hidden" onChange={handleImportChange} />
+            {isSelecting ? (
+                <div className="flex items-center gap-2">
+                    <span className="text-xs text-slate-400 flex-1">{selectedIds.length} selected</span>
+                    <button
+                        onClick={() => handleExportSelected('json')}
+                        disabled={selectedIds.length === 0}
+                        className="px-2 py-1 text-xs rounded bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+                        title="Download a JSON backup including attachments"
+                    >
+                        JSON
+                    </button>
+                    <button
+                        onClick={() => handleExportSelected('markdown')}
+                        disabled={selectedIds.length === 0}
+                        className="px-2 py-1 text-xs rounded bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:opacity-40"
+                        title="Download a readable Markdown transcript"
+                    >
+                        Markdown
+                    </button>
+                    <button
+                        onClick={handleStopSelecting}
+                        className="px-2 py-1 text-xs rounded text-slate-400 hover:text-white"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            ) : (
+                <div className="flex items-center gap-1 text-xs">
+                    <button
+                        onClick={() => setIsSelecting(true)}
+                        disabled={sessions.length === 0}
+                        className="px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                    >
+                        Select
+                    </button>
+                    <button
+                        onClick={() => onExportSessions(sessions.map(s => s.id), 'json')}
+                        disabled={sessions.length === 0}
+                        className="px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                        title="Download all chats as a JSON backup"
+                    >
+                        Export all
+                    </button>
+                    <button
+                        onClick={onRetitleAll}
+                        disabled={sessions.length === 0 || !!retitleProgress}
+                        className="px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-40"
+                        title="Let the model write titles for chats you have not renamed yourself"
+                    >
+                        {retitleProgress ? `Titling ${retitleProgress.done}/${retitleProgress.total}` : 'Re-title all'}
+                    </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="ml-auto px-2 py-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+                        title="Import a JSON backup"
+                    >
+                        Import
+                    </button>
+                </div>
             )}
         </div>
       </div>
@@ -0,0 +1,252 @@
+import React, { useMemo } from 'react';
+import { DailyBudget, PriceEntry, SessionMeta, UsageEntry } from '../types';
+import {
+  DEFAULT_PRICES, UsageTotals, formatCost, getDayKey, getTotals, getUsageByDay, getUsageBySession
+} from '../services/usage';
+import { formatTokenCount } from '../services/context';
+
+interface UsageStatsProps {
+  usageLog: UsageEntry[];
+  sessions: SessionMeta[];
+  prices: PriceEntry[];
+  budget: DailyBudget;
+  onPricesChange: (prices: PriceEntry[]) => void;
+  onBudgetChange: (budget: DailyBudget) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm font-mono text-slate-100 placeholder-slate-600 focus:outline-none focus:border-cyan-500";
+
+const SummaryCard: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="flex-1 p-4 bg-slate-900/60 border border-slate-700 rounded-xl">
+    <p className="text-xs text-slate-500 mb-1">{label}</p>
+    <p className="text-xl font-semibold text-white">{formatCost(totals.cost)}</p>
+    <p className="text-xs text-slate-400 font-mono">{formatTokenCount(totals.totalTokens)} tokens · {totals.requests} requests</p>
+  </div>
+);
+
+const TotalsCells: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+  <>
+    <td className="py-1.5 px-2 text-right">{totals.requests}</td>
+    <td className="py-1.5 px-2 text-right">{formatTokenCount(totals.promptTokens)}</td>
+    <td className="py-1.5 px-2 text-right">{formatTokenCount(totals.candidateTokens)}</td>
+    <td className="py-1.5 px-2 text-right">{formatTokenCount(totals.thinkingTokens)}</td>
+    <td className="py-1.5 px-2 text-right text-slate-100" title={totals.unpricedRequests ? `${totals.unpricedRequests} requests used models without a price` : undefined}>
+      {formatCost(totals.cost)}{totals.unpricedRequests ? '*' : ''}
+    </td>
+  </>
+);
+
+const TableHead: React.FC<{ first: string }> = ({ first }) => (
+  <thead>
+    <tr className="text-slate-500 border-b border-slate-700">
+      <th className="py-1.5 px-2 text-left font-medium">{first}</th>
+      <th className="py-1.5 px-2 text-right font-medium">Requests</th>
+      <th className="py-1.5 px-2 text-right font-medium">Prompt</th>
+      <th className="py-1.5 px-2 text-right font-medium">Answer</th>
+      <th className="py-1.5 px-2 text-right font-medium">Thinking</th>
+      <th className="py-1.5 px-2 text-right font-medium">Cost</th>
+    </tr>
+  </thead>
+);
+
+const UsageStats: React.FC<UsageStatsProps> = ({ usageLog, sessions, prices, budget, onPricesChange, onBudgetChange, onClose }) => {
+  const stats = useMemo(() => {
+    const now = Date.now();
+    const today = getDayKey(now);
+    return {
+      today: getTotals(usageLog.filter(e => getDayKey(e.timestamp) === today), prices),
+      last30: getTotals(usageLog.filter(e => e.timestamp > now - 30 * DAY_MS), prices),
+      allTime: getTotals(usageLog, prices),
+      byDay: getUsageByDay(usageLog, prices).slice(0, 30),
+      bySession: getUsageBySession(usageLog, prices),
+    };
+  }, [usageLog, prices]);
+
+  const sessionTitles = useMemo(() => new Map(sessions.map(s => [s.id, s.title])), [sessions]);
+
+  const updatePrice = (index: number, patch: Partial<PriceEntry>) => {
+    onPricesChange(prices.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const parseLimit = (value: string) => (value === '' || Number(value) <= 0 ? undefined : Number(value));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-[85vh] flex flex-col bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-white">Usage & costs</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <SummaryCard label="Today" totals={stats.today} />
+            <SummaryCard label="Last 30 days" totals={stats.last30} />
+            <SummaryCard label="All time" totals={stats.allTime} />
+          </div>
+
+          {/* Daily budget */}
+          <section>
+            <h3 className="text-sm font-medium text-slate-300 mb-3">Daily budget</h3>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-slate-400">
+              <label className="flex items-center gap-2">
+                Cost limit ($)
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={budget.costLimit ?? ''}
+                  placeholder="None"
+                  onChange={e => onBudgetChange({ ...budget, costLimit: parseLimit(e.target.value) })}
+                  className={`${inputClass} w-24`}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Token limit
+                <input
+                  type="number"
+                  min={0}
+                  step={10000}
+                  value={budget.tokenLimit ?? ''}
+                  placeholder="None"
+                  onChange={e => onBudgetChange({ ...budget, tokenLimit: parseLimit(e.target.value) })}
+                  className={`${inputClass} w-28`}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                When reached
+                <select
+                  value={budget.mode}
+                  onChange={e => onBudgetChange({ ...budget, mode: e.target.value as DailyBudget['mode'] })}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+                >
+                  <option value="warn">Warn</option>
+                  <option value="block">Block sending</option>
+                </select>
+              </label>
+            </div>
+          </section>
+
+          {/* Per day */}
+          <section>
+            <h3 className="text-sm font-medium text-slate-300 mb-3">By day</h3>
+            {stats.byDay.length === 0 ? (
+              <p className="text-sm text-slate-500">No usage recorded yet.</p>
+            ) : (
+              <table className="w-full text-xs text-slate-400 font-mono">
+                <TableHead first="Day" />
+                <tbody>
+                  {stats.byDay.map(({ day, totals }) => (
+                    <tr key={day} className="border-b border-slate-700/50">
+                      <td className="py-1.5 px-2">{day}</td>
+                      <TotalsCells totals={totals} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {/* Per session */}
+          {stats.bySession.length > 0 && (
+            <section>
+              <h3 className="text-sm font-medium text-slate-300 mb-3">By chat</h3>
+              <table className="w-full text-xs text-slate-400 font-mono">
+                <TableHead first="Chat" />
+                <tbody>
+                  {stats.bySession.map(({ sessionId, totals }) => (
+                    <tr key={sessionId} className="border-b border-slate-700/50">
+                      <td className="py-1.5 px-2 font-sans truncate max-w-[16rem]">
+                        {sessionTitles.get(sessionId) ?? <span className="italic text-slate-500">Deleted chat</span>}
+                      </td>
+                      <TotalsCells totals={totals} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* Price table */}
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-slate-300">Prices (USD per 1M tokens)</h3>
+              <div className="flex gap-3 text-xs">
+                <button onClick={() => onPricesChange([...prices, { model: '', input: 0, output: 0 }])} className="text-cyan-400 hover:text-cyan-300">
+                  Add model
+                </button>
+                <button onClick={() => onPricesChange(DEFAULT_PRICES)} className="text-slate-400 hover:text-slate-200">
+                  Reset to defaults
+                </button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_5rem_5rem_5rem_1.5rem] gap-2 text-xs text-slate-500">
+                <span>Model (prefix)</span><span>Input</span><span>Output</span><span>Cached</span><span />
+              </div>
+              {prices.map((price, index) => (
+                <div key={index} className="grid grid-cols-[1fr_5rem_5rem_5rem_1.5rem] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={price.model}
+                    placeholder="gemini-2.5-pro"
+                    onChange={e => updatePrice(index, { model: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.input}
+                    onChange={e => updatePrice(index, { input: Number(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.output}
+                    onChange={e => updatePrice(index, { output: Number(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.cachedInput ?? ''}
+                    placeholder="="
+                    onChange={e => updatePrice(index, { cachedInput: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => onPricesChange(prices.filter((_, i) => i !== index))}
+                    className="text-slate-500 hover:text-red-400"
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+              Models without a price (e.g. local models) are counted as free and marked with *.
+              Thinking tokens are billed as output. Titles and summaries made in the background are not included.
+            </p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageStats;
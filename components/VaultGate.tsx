@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { VaultState } from '../types';
+import { getVaultStatus } from '../services/storage';
+import { lockVault, subscribeToVault } from '../services/vault';
+import { isStreamingHere, subscribeToChanges } from '../services/tabSync';
+import { revokeAttachmentUrls } from '../services/attachmentStore';
+import { clearDiagramCache } from '../services/diagrams';
+import LockScreen from './LockScreen';
+
+// Hareketsizlik süresi bu aralıkla denetlenir (arka plandaki sekmelerde zamanlayıcılar zaten seyrekleşir)
+const AUTO_LOCK_CHECK_MS = 15000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+/**
+ * Renders the app only while the stored history is readable. With encryption enabled, a locked vault
+ * shows the lock screen; locking unmounts the app so no decrypted chat stays in its state.
+ */
+const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [vault, setVault] = useState<VaultState | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToVault(setVault);
+    void getVaultStatus().then(setVault);
+    return unsubscribe;
+  }, []);
+
+  // Başka sekmede şifreleme açıldı ya da parola değişti: yapılandırma yeniden okunur, yeni parolayla açılır
+  useEffect(() => subscribeToChanges(message => {
+    if (message.type !== 'vault-changed') return;
+    void lockVault().then(getVaultStatus);
+  }), []);
+
+  const isLocked = !!vault && !vault.unlocked;
+
+  useEffect(() => {
+    if (!isLocked) return;
+    revokeAttachmentUrls();
+    clearDiagramCache();
+  }, [isLocked]);
+
+  // Otomatik kilit: cevap akarken kilitlenmez, süre akış bitince yeniden başlar
+  useEffect(() => {
+    if (!vault?.enabled || !vault.unlocked || !vault.autoLockMinutes) return;
+    const timeoutMs = vault.autoLockMinutes * 60 * 1000;
+    let lastActivity = Date.now();
+    const handleActivity = () => { lastActivity = Date.now(); };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const timer = window.setInterval(() => {
+      if (isStreamingHere()) {
+        lastActivity = Date.now();
+      } else if (Date.now() - lastActivity >= timeoutMs) {
+        void lockVault();
+      }
+    }, AUTO_LOCK_CHECK_MS);
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [vault?.enabled, vault?.unlocked, vault?.autoLockMinutes]);
+
+  if (!vault) return <div className="h-screen bg-slate-900" />;
+  if (isLocked) return <LockScreen />;
+  return <>{children}</>;
+};
+
+export default VaultGate;
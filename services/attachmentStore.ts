@@ -0,0 +1,66 @@
+import { Attachment, InlineAttachment } from "../types";
+import { blobToBase64, createAttachment, readFileContent } from "./attachments";
+import { loadAttachmentBlob, saveAttachmentBlobs } from "./storage";
+
+// Görüntüleme için oluşturulan object URL'ler (aynı dosya için tek URL)
+const objectUrls = new Map<string, Promise<string>>();
+
+/**
+ * Reads a picked or pasted file, stores its content in the attachment store
+ * and returns the reference that goes into the message.
+ */
+export const readFileAsAttachment = async (file: File): Promise<Attachment> => {
+  const content = await readFileContent(file);
+  const { attachment, record } = await createAttachment(content.name, content.mimeType, content.blob);
+  await saveAttachmentBlobs([record]);
+  return attachment;
+};
+
+export const getAttachmentBlob = async (att: Attachment): Promise<Blob> => {
+  const blob = await loadAttachmentBlob(att.hash, att.mimeType);
+  if (!blob) throw new Error(`The content of attachment "${att.name}" is no longer available.`);
+  return blob;
+};
+
+// Sağlayıcılara gönderim için (inline data / data URL)
+export const getAttachmentBase64 = async (att: Attachment): Promise<string> => {
+  return blobToBase64(await getAttachmentBlob(att));
+};
+
+export const getAttachmentText = async (att: Attachment): Promise<string> => {
+  return (await getAttachmentBlob(att)).text();
+};
+
+/**
+ * Wraps a text attachment with markers so the model can tell where the file starts and ends.
+ */
+export const formatTextAttachment = async (att: Attachment): Promise<string> => {
+  return `\n[Attachment: ${att.name}]\n${await getAttachmentText(att)}\n[End Attachment]\n`;
+};
+
+/**
+ * Object URL for showing an attachment (thumbnails, previews). Loaded on first use and reused.
+ */
+export const getAttachmentUrl = (att: Attachment): Promise<string> => {
+  let url = objectUrls.get(att.hash);
+  if (!url) {
+    url = getAttachmentBlob(att).then(blob => URL.createObjectURL(blob));
+    // Başarısız yükleme önbellekte kalmasın, sonra tekrar denenebilsin
+    url.catch(() => objectUrls.delete(att.hash));
+    objectUrls.set(att.hash, url);
+  }
+  return url;
+};
+
+// Kilitlenince çözülmüş içeriğe giden URL'ler geçersiz kılınır
+export const revokeAttachmentUrls = () => {
+  objectUrls.forEach(url => url.then(URL.revokeObjectURL, () => {}));
+  objectUrls.clear();
+};
+
+// Yedek dosyaları taşınabilir olsun diye ek verisi base64 olarak gömülür
+export const toInlineAttachment = async (att: Attachment): Promise<InlineAttachment> => ({
+  name: att.name,
+  mimeType: att.mimeType,
+  data: await getAttachmentBase64(att),
+});
@@ -0,0 +1,143 @@
+import { Attachment, AttachmentBlob, BackupSession, ChatSession, InlineAttachment, Message } from "../types";
+
+/**
+ * Determines if an attachment should be treated as text (included in the prompt)
+ * or as binary inline data (images, PDF, audio, video).
+ */
+export const isTextBased = (mimeType: string) => {
+  return mimeType === 'text/csv' ||
+         mimeType.startsWith('text/') ||
+         mimeType === 'application/json' ||
+         mimeType === 'application/xml' ||
+         mimeType.includes('javascript') ||
+         mimeType.includes('typescript') ||
+         mimeType.includes('script');
+};
+
+// --- BLOB / BASE64 ---
+
+export const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// İçerik özeti: aynı dosya kaç kez eklenirse eklensin tek Blob olarak saklanır
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Turns file content into an attachment reference and the blob record to store for it.
+ */
+export const createAttachment = async (name: string, mimeType: string, blob: Blob): Promise<{ attachment: Attachment; record: AttachmentBlob }> => {
+  const hash = await hashBlob(blob);
+  return {
+    attachment: { name, mimeType, hash, size: blob.size },
+    record: { hash, blob, createdAt: Date.now() },
+  };
+};
+
+/**
+ * Moves the base64 data of inline attachments (old records, backup files) out of a session.
+ * Returns the session with references and the blobs to store; sessions without inline data are returned as is.
+ */
+export const externalizeAttachments = async (
+  session: BackupSession | ChatSession
+): Promise<{ session: ChatSession; records: AttachmentBlob[] }> => {
+  const records: AttachmentBlob[] = [];
+  const messages: Message[] = [];
+  for (const msg of session.messages) {
+    const inline = (msg.attachments || []) as (Attachment | InlineAttachment)[];
+    if (!inline.some(att => 'data' in att)) {
+      messages.push(msg as Message);
+      continue;
+    }
+    const attachments: Attachment[] = [];
+    for (const att of inline) {
+      if (!('data' in att)) {
+        attachments.push(att);
+        continue;
+      }
+      const created = await createAttachment(att.name, att.mimeType, base64ToBlob(att.data, att.mimeType));
+      attachments.push(created.attachment);
+      records.push(created.record);
+    }
+    messages.push({ ...msg, attachments });
+  }
+  return { session: { ...session, messages }, records };
+};
+
+// SheetJS index.html üzerinden global olarak yükleniyor (window.XLSX, bkz. InputArea)
+const readExcelAsCSV = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+          const data = e.target?.result;
+          if (window.XLSX) {
+              const workbook = window.XLSX.read(data, { type: 'array' });
+              let combinedText = "";
+              // Read all sheets
+              workbook.SheetNames.forEach((sheetName: string) => {
+                  const sheet = workbook.Sheets[sheetName];
+                  const csv = window.XLSX.utils.sheet_to_csv(sheet);
+                  combinedText += `--- Sheet: ${sheetName} ---\n${csv}\n\n`;
+              });
+              resolve(combinedText);
+          } else {
+              reject(new Error("XLSX library not loaded"));
+          }
+      } catch (error) {
+          reject(error);
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+/**
+ * Reads a picked or pasted file into attachment content.
+ * Excel sheets become CSV text, code/text files get a text MIME type, everything else is kept as is.
+ */
+export const readFileContent = async (file: File): Promise<{ name: string; mimeType: string; blob: Blob }> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  // 1. Excel Support
+  if (extension === 'xlsx' || extension === 'xls' || file.type.includes('sheet') || file.type.includes('excel')) {
+    const csvContent = await readExcelAsCSV(file);
+    return { name: file.name, mimeType: 'text/csv', blob: new Blob([csvContent], { type: 'text/csv' }) };
+  }
+  // 2. Code & Text Support
+  if (['json', 'js', 'jsx', 'ts', 'tsx', 'py', 'java', 'html', 'css', 'md', 'txt', 'xml', 'csv'].includes(extension || '')) {
+    let mimeType = 'text/plain';
+    if (extension === 'json') mimeType = 'application/json';
+    else if (extension === 'xml') mimeType = 'application/xml';
+    else if (extension === 'js' || extension === 'jsx') mimeType = 'text/javascript';
+    else if (extension === 'ts' || extension === 'tsx') mimeType = 'text/typescript';
+    else if (extension === 'py') mimeType = 'text/x-python';
+    else if (extension === 'html') mimeType = 'text/html';
+    else if (extension === 'css') mimeType = 'text/css';
+    else if (extension === 'md') mimeType = 'text/markdown';
+    else if (extension === 'csv') mimeType = 'text/csv';
+
+    return { name: file.name, mimeType, blob: file.slice(0, file.size, mimeType) };
+  }
+  // 3. PDF & Images (Native Binary Support)
+  // Explicitly handle PDF type if browser doesn't detect it perfectly
+  let mimeType = file.type;
+  if (extension === 'pdf' && !mimeType) mimeType = 'application/pdf';
+  return { name: file.name, mimeType: mimeType || 'application/octet-stream', blob: file };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession } from '../types';
+import { BACKUP_FORMAT, BACKUP_VERSION, createBackup, parseBackup } from './backup';
+
+const session: ChatSession = {
+  id: 's1',
+  title: 'Chat',
+  createdAt: 1,
+  updatedAt: 2,
+  pinned: false,
+  archived: false,
+  tags: [],
+  messages: [{ id: 'm1', role: 'model', text: 'Hello', timestamp: 2 }],
+  streamingMessageId: 'm1',
+  folderId: 'f1',
+  revision: 7,
+  writtenBy: 'tab-1',
+};
+
+const LOCAL_FIELDS = ['streamingMessageId', 'folderId', 'revision', 'writtenBy'];
+
+describe('backup', () => {
+  it('does not export fields tied to this database', async () => {
+    const [exported] = (await createBackup([session])).sessions;
+    LOCAL_FIELDS.forEach(field => expect(exported).not.toHaveProperty(field));
+    expect(exported.messages[0].text).toBe('Hello');
+  });
+
+  it('drops them when importing an older backup', async () => {
+    const text = JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: 3, sessions: [session] });
+    const [imported] = await parseBackup(text);
+    LOCAL_FIELDS.forEach(field => expect(imported[field as keyof ChatSession]).toBeUndefined());
+    expect(imported.id).toBe('s1');
+  });
+});
@@ -0,0 +1,241 @@
+import { BackupFile, BackupSession, ChatSession, ExportFormat, InlineAttachment, MessagePart } from "../types";
+import { getActivePath, normalizeSession } from "./messageTree";
+import { PROVIDERS } from "./providers";
+import { getMessageParts, partsToMarkdown } from "./parts";
+import { externalizeAttachments } from "./attachments";
+import { toInlineAttachment } from "./attachmentStore";
+import { saveAttachmentBlobs } from "./storage";
+
+export const BACKUP_FORMAT = 'mustafa-ai-backup';
+export const BACKUP_VERSION = 1;
+
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+// Bu veritabanına ve sekmeye ait alanlar: akış işareti, klasör, sürüm ve yazan sekme başka bir kurulumda anlamsızdır
+const withoutLocalFields = <T extends BackupSession | ChatSession>(session: T): T => {
+  const { streamingMessageId, folderId, revision, writtenBy, ...rest } = session;
+  return rest as T;
+};
+
+/**
+ * Builds a versioned JSON backup. Attachments are included as base64;
+ * API keys are stripped so backups can be shared safely.
+ */
+export const createBackup = async (sessions: ChatSession[]): Promise<BackupFile> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  sessions: await Promise.all(sessions.map(async (session): Promise<BackupSession> => {
+    // Ek içerikleri ek deposundan alınıp mesajlara gömülür
+    const messages = await Promise.all(session.messages.map(async msg => (
+      msg.attachments?.length ? { ...msg, attachments: await Promise.all(msg.attachments.map(toInlineAttachment)) } : { ...msg, attachments: undefined }
+    )));
+    if (!session.providerSettings) return withoutLocalFields({ ...session, messages });
+    const { apiKey, ...providerSettings } = session.providerSettings;
+    return withoutLocalFields({ ...session, messages, providerSettings });
+  })),
+});
+
+/**
+ * Renders the selected branch of a session as a readable Markdown transcript.
+ */
+export const sessionToMarkdown = (session: ChatSession): string => {
+  const lines: string[] = [
+    `# ${session.title}`,
+    '',
+    `_${new Date(session.createdAt).toLocaleString()}_`,
+    '',
+  ];
+
+  getActivePath(session).forEach(msg => {
+    const time = new Date(msg.timestamp).toLocaleString();
+    const author = msg.role === 'user' ? 'You' : (msg.isError ? 'Error' : 'Assistant');
+    lines.push(`## ${author} · ${time}`, '');
+    if (msg.attachments && msg.attachments.length > 0) {
+      lines.push(...msg.attachments.map(att => `> 📎 ${att.name} (${att.mimeType})`), '');
+    }
+    lines.push(partsToMarkdown(getMessageParts(msg)) || '_(empty)_');
+    if (msg.isStopped) lines.push('', '_[stopped]_');
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+export const sessionsToMarkdown = (sessions: ChatSession[]): string => {
+  return sessions.map(sessionToMarkdown).join('\n---\n\n');
+};
+
+// --- ŞEMA DOĞRULAMA ---
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isOptionalBoolean = (v: unknown) => v === undefined || typeof v === 'boolean';
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const validateAttachment = (att: unknown, where: string): InlineAttachment => {
+  if (!isObject(att) || !isString(att.name) || !isString(att.mimeType) || !isString(att.data)) {
+    throw new BackupValidationError(`${where}: invalid attachment`);
+  }
+  return att as unknown as InlineAttachment;
+};
+
+const PART_TYPES = ['text', 'image', 'file', 'code', 'code-result'];
+
+const validatePart = (part: unknown, where: string): MessagePart => {
+  if (!isObject(part) || !isString(part.type) || !PART_TYPES.includes(part.type)) {
+    throw new BackupValidationError(`${where}: invalid part`);
+  }
+  return part as unknown as MessagePart;
+};
+
+const validateMessage = (msg: unknown, where: string): BackupSession['messages'][number] => {
+  if (!isObject(msg)) throw new BackupValidationError(`${where}: message is not an object`);
+  if (!isString(msg.id)) throw new BackupValidationError(`${where}: message id is missing`);
+  if (msg.role !== 'user' && msg.role !== 'model') throw new BackupValidationError(`${where}: invalid role`);
+  if (!isString(msg.text)) throw new BackupValidationError(`${where}: message text is missing`);
+  if (!isNumber(msg.timestamp)) throw new BackupValidationError(`${where}: invalid timestamp`);
+  if (!isOptionalBoolean(msg.isError) || !isOptionalBoolean(msg.isStopped) || !isOptionalBoolean(msg.isGreeting)) {
+    throw new BackupValidationError(`${where}: invalid message flags`);
+  }
+  if (msg.parentId !== undefined && msg.parentId !== null && !isString(msg.parentId)) {
+    throw new BackupValidationError(`${where}: invalid parentId`);
+  }
+  if (msg.attachments !== undefined) {
+    if (!Array.isArray(msg.attachments)) throw new BackupValidationError(`${where}: attachments must be a list`);
+    msg.attachments.forEach((att, i) => validateAttachment(att, `${where}, attachment ${i + 1}`));
+  }
+  if (msg.parts !== undefined) {
+    if (!Array.isArray(msg.parts)) throw new BackupValidationError(`${where}: parts must be a list`);
+    msg.parts.forEach((part, i) => validatePart(part, `${where}, part ${i + 1}`));
+  }
+  return msg as unknown as BackupSession['messages'][number];
+};
+
+const validateSession = (session: unknown, index: number): BackupSession => {
+  const where = `Session ${index + 1}`;
+  if (!isObject(session)) throw new BackupValidationError(`${where}: not an object`);
+  if (!isString(session.id) || !isString(session.title)) throw new BackupValidationError(`${where}: id or title is missing`);
+  if (!isNumber(session.createdAt) || !isNumber(session.updatedAt)) throw new BackupValidationError(`${where}: invalid dates`);
+  if (!Array.isArray(session.messages)) throw new BackupValidationError(`${where}: messages must be a list`);
+  session.messages.forEach((msg, i) => validateMessage(msg, `${where}, message ${i + 1}`));
+
+  if (session.activeChildren !== undefined) {
+    if (!isObject(session.activeChildren) || !Object.values(session.activeChildren).every(isString)) {
+      throw new BackupValidationError(`${where}: invalid branch selection`);
+    }
+  }
+  if (session.providerSettings !== undefined) {
+    const settings = session.providerSettings;
+    if (!isObject(settings) || !isString(settings.model) || !Object.keys(PROVIDERS).includes(settings.provider as string)) {
+      throw new BackupValidationError(`${where}: invalid provider settings`);
+    }
+  }
+  if (session.generationConfig !== undefined && !isObject(session.generationConfig)) {
+    throw new BackupValidationError(`${where}: invalid generation settings`);
+  }
+  if (session.personaId !== undefined && !isString(session.personaId)) {
+    throw new BackupValidationError(`${where}: invalid persona`);
+  }
+  if (!isOptionalBoolean(session.pinned) || !isOptionalBoolean(session.archived)) {
+    throw new BackupValidationError(`${where}: invalid pinned or archived flag`);
+  }
+  if (session.tags !== undefined && (!Array.isArray(session.tags) || !session.tags.every(isString))) {
+    throw new BackupValidationError(`${where}: tags must be a list of strings`);
+  }
+  return session as unknown as BackupSession;
+};
+
+/**
+ * Parses and validates a backup file against the ChatSession schema.
+ * Embedded attachment data is moved to the attachment store; the sessions keep references.
+ * Fields tied to the exporting database (folder, stream marker, revision) are dropped, also from older backups.
+ * @throws BackupValidationError with a message that points to the broken entry.
+ */
+export const parseBackup = async (text: string): Promise<ChatSession[]> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError('This is not a Mustafa AI backup file.');
+  }
+  if (!isNumber(data.version) || data.version > BACKUP_VERSION) {
+    throw new BackupValidationError(`Unsupported backup version: ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.sessions)) {
+    throw new BackupValidationError('The backup does not contain any sessions.');
+  }
+  const validated = data.sessions.map(validateSession).map(withoutLocalFields);
+
+  const sessions: ChatSession[] = [];
+  for (const session of validated) {
+    const { session: externalized, records } = await externalizeAttachments(session);
+    await saveAttachmentBlobs(records);
+    sessions.push(normalizeSession(externalized));
+  }
+  return sessions;
+};
+
+// --- ÇAKIŞMA ÇÖZÜMÜ ---
+
+/**
+ * Gives an imported session a fresh id so it can live next to the existing copy.
+ */
+export const asCopy = (session: ChatSession): ChatSession => ({
+  ...session,
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  title: `${session.title} (imported)`,
+});
+
+/**
+ * Merges an imported session into an existing one: messages are combined by id
+ * (the existing copy wins) and the existing branch selection is kept.
+ */
+export const mergeSessions = (existing: ChatSession, incoming: ChatSession): ChatSession => {
+  const knownIds = new Set(existing.messages.map(m => m.id));
+  return {
+    ...existing,
+    messages: [...existing.messages, ...incoming.messages.filter(m => !knownIds.has(m.id))],
+    activeChildren: { ...(incoming.activeChildren || {}), ...(existing.activeChildren || {}) },
+    updatedAt: Math.max(existing.updatedAt, incoming.updatedAt),
+  };
+};
+
+/**
+ * Triggers a browser download for the given content.
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Tarayıcı indirmeyi başlatmadan URL'yi iptal etme
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Downloads the given sessions as a JSON backup or a Markdown transcript.
+ * A single session is named after its title, several sessions after today's date.
+ */
+export const exportSessions = async (sessions: ChatSession[], format: ExportFormat) => {
+  if (sessions.length === 0) return;
+  const baseName = sessions.length === 1
+    ? sessions[0].title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'chat'
+    : `mustafa-ai-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'json') {
+    downloadFile(`${baseName}.json`, JSON.stringify(await createBackup(sessions), null, 2), 'application/json');
+  } else {
+    downloadFile(`${baseName}.md`, sessionsToMarkdown(sessions), 'text/markdown');
+  }
+};
@@ -0,0 +1,162 @@
+import hljs from 'highlight.js/lib/common';
+import { downloadFile } from './backup';
+
+export type CodeBlockToggle = 'line-numbers' | 'wrap';
+
+// İndirilen dosyanın uzantısı dilden çıkarılır; bilinmeyenler .txt olur
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', jsx: 'jsx', typescript: 'ts', ts: 'ts', tsx: 'tsx',
+  python: 'py', py: 'py', ruby: 'rb', rb: 'rb', go: 'go', rust: 'rs', rs: 'rs',
+  java: 'java', kotlin: 'kt', swift: 'swift', c: 'c', cpp: 'cpp', 'c++': 'cpp', csharp: 'cs', cs: 'cs',
+  php: 'php', perl: 'pl', lua: 'lua', r: 'r', scala: 'scala', dart: 'dart',
+  bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', powershell: 'ps1', ps1: 'ps1',
+  html: 'html', xml: 'xml', css: 'css', scss: 'scss', less: 'less',
+  json: 'json', yaml: 'yml', yml: 'yml', toml: 'toml', ini: 'ini', sql: 'sql', graphql: 'graphql',
+  markdown: 'md', md: 'md', dockerfile: 'Dockerfile', makefile: 'Makefile', diff: 'diff',
+};
+
+export const getFileName = (language: string): string => {
+  const ext = LANGUAGE_EXTENSIONS[language.toLowerCase()];
+  if (ext === 'Dockerfile' || ext === 'Makefile') return ext;
+  return `snippet.${ext || 'txt'}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Splits highlighted HTML into lines. highlight.js spans can cover several lines
+ * (block comments, template strings), so open spans are closed at each line end and reopened.
+ */
+const splitHighlightedLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let current = '';
+  html.split(/(<span[^>]*>|<\/span>)/).forEach(token => {
+    if (token.startsWith('<span')) {
+      open.push(token);
+      current += token;
+    } else if (token === '</span>') {
+      open.pop();
+      current += token;
+    } else {
+      token.split('\n').forEach((piece, i) => {
+        if (i > 0) {
+          lines.push(current + '</span>'.repeat(open.length));
+          current = open.join('');
+        }
+        current += piece;
+      });
+    }
+  });
+  lines.push(current);
+  return lines;
+};
+
+const highlight = (code: string, language: string): { html: string; language: string } => {
+  if (language && hljs.getLanguage(language)) {
+    return { html: hljs.highlight(code, { language, ignoreIllegals: true }).value, language };
+  }
+  if (language) {
+    return { html: escapeHtml(code), language };
+  }
+  const auto = hljs.highlightAuto(code);
+  return { html: auto.value, language: auto.language || 'text' };
+};
+
+const createButton = (action: string, label: string, title: string) => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.dataset.codeAction = action;
+  button.textContent = label;
+  button.title = title;
+  return button;
+};
+
+/**
+ * Builds a code block with a header (language, toggles, copy, download) and highlighted lines.
+ * Line numbers and wrapping are switched by classes on a parent element (see index.html),
+ * so they survive the re-renders of a streaming message.
+ */
+const createCodeBlock = (code: string, language: string): HTMLElement => {
+  const source = code.replace(/\n$/, '');
+  const result = highlight(source, language.toLowerCase());
+
+  const block = document.createElement('div');
+  block.className = 'code-block';
+  block.dataset.language = result.language;
+
+  const header = document.createElement('div');
+  header.className = 'code-block-header';
+  const label = document.createElement('span');
+  label.textContent = result.language;
+  const actions = document.createElement('div');
+  actions.className = 'code-block-actions';
+  actions.append(
+    createButton('line-numbers', '#', 'Toggle line numbers'),
+    createButton('wrap', 'Wrap', 'Toggle line wrapping'),
+    createButton('copy', 'Copy', 'Copy code'),
+    createButton('download', 'Download', `Download as ${getFileName(result.language)}`),
+  );
+  header.append(label, actions);
+
+  const pre = document.createElement('pre');
+  const codeElement = document.createElement('code');
+  codeElement.className = `hljs language-${result.language}`;
+  // highlight.js çıktısı kaçışlı metin ve span'lerden ibarettir
+  codeElement.innerHTML = splitHighlightedLines(result.html)
+    .map(line => `<span class="code-line">${line}</span>`)
+    .join('');
+  pre.appendChild(codeElement);
+
+  block.append(header, pre);
+  return block;
+};
+
+// Markdown dışından gelen kod için (ör. modelin çalıştırdığı kod parçası)
+export const renderCodeBlock = (code: string, language: string): string => createCodeBlock(code, language).outerHTML;
+
+/**
+ * Replaces the fenced code blocks of sanitized Markdown with highlighted code blocks.
+ */
+export const enhanceCodeBlocks = (root: DocumentFragment) => {
+  root.querySelectorAll('pre > code').forEach(code => {
+    const language = Array.from(code.classList).find(c => c.startsWith('language-'))?.slice('language-'.length) || '';
+    code.parentElement!.replaceWith(createCodeBlock(code.textContent || '', language));
+  });
+};
+
+const getCode = (block: Element): string => {
+  return Array.from(block.querySelectorAll('.code-line')).map(line => line.textContent).join('\n');
+};
+
+const flashLabel = (button: HTMLElement, label: string) => {
+  const original = button.textContent;
+  button.textContent = label;
+  setTimeout(() => { button.textContent = original; }, 1500);
+};
+
+/**
+ * Click handler for code block headers. Copy and download are handled here;
+ * the toggles are returned so the caller can update the saved setting.
+ */
+export const runCodeBlockAction = (target: EventTarget | null): CodeBlockToggle | undefined => {
+  const button = target instanceof Element ? target.closest<HTMLElement>('button[data-code-action]') : null;
+  const block = button?.closest<HTMLElement>('.code-block');
+  if (!button || !block) return undefined;
+
+  switch (button.dataset.codeAction) {
+    case 'copy':
+      navigator.clipboard.writeText(getCode(block))
+        .then(() => flashLabel(button, 'Copied'))
+        .catch(() => flashLabel(button, 'Failed'));
+      return undefined;
+    case 'download':
+      downloadFile(getFileName(block.dataset.language || ''), getCode(block), 'text/plain');
+      return undefined;
+    case 'line-numbers':
+    case 'wrap':
+      return button.dataset.codeAction;
+  }
+  return undefined;
+};
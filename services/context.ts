@@ -0,0 +1,177 @@
+import { Attachment, ContextPolicy, ContextRecord, ContextSettings, ContextSummary, Message, ProviderSettings, UsageListener } from "../types";
+import { isTextBased } from "./attachments";
+import { getHistoryMessages } from "./history";
+import { generateText } from "./providers";
+
+export const CONTEXT_POLICIES: { id: ContextPolicy; label: string; description: string }[] = [
+  { id: 'drop-attachments', label: 'Drop old attachments', description: 'Files in older turns are replaced by their names; turns are dropped only if that is not enough.' },
+  { id: 'truncate', label: 'Truncate old turns', description: 'The oldest turns are left out until the chat fits.' },
+  { id: 'summarize', label: 'Summarize old turns', description: 'Older turns are replaced by a summary written by the model.' },
+];
+
+// Özet yazılırken son turlar için ayrılan pay; kalan kısım özetin kendisine kalır
+const SUMMARY_SHARE = 0.15;
+
+const SUMMARY_INSTRUCTION = `You summarize conversations so they can be continued later.
+Write a concise summary of the conversation below in the language it is written in.
+Keep facts, decisions, names, numbers, code identifiers and open questions. Do not add anything new.`;
+
+// --- TOKEN TAHMİNİ ---
+// Gerçek tokenizer yok; ~4 karakter = 1 token kabulü çoğu model için yeterince yakın
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Rough token cost of an attachment. Text files count by their size, images use Gemini's
+ * fixed 258 tokens, other binaries (PDF, audio) are estimated at 258 tokens per 100 KB.
+ */
+export const estimateAttachmentTokens = (att: Attachment): number => {
+  const bytes = att.size;
+  if (isTextBased(att.mimeType)) return Math.ceil(bytes / 4);
+  if (att.mimeType.startsWith('image/')) return 258;
+  return Math.max(1, Math.ceil(bytes / 100000)) * 258;
+};
+
+export const estimateMessageTokens = (msg: Pick<Message, 'text' | 'attachments'>): number => {
+  return estimateTextTokens(msg.text) + (msg.attachments || []).reduce((sum, att) => sum + estimateAttachmentTokens(att), 0);
+};
+
+/**
+ * Estimated size of what would be sent for the next turn: system prompt plus the history.
+ */
+export const estimateContextTokens = (history: Message[], systemInstruction: string): number => {
+  return estimateTextTokens(systemInstruction) +
+    getHistoryMessages(history).reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+};
+
+// --- BAĞLAM PLANI ---
+
+export interface ContextPlan {
+  history: Message[];       // Modele gönderilecek geçmiş (ekleri çıkarılmış kopyalar dahil)
+  toSummarize: Message[];   // Özetlenip sistem talimatına eklenecek eski turlar
+  record: Omit<ContextRecord, 'tokens'>;
+}
+
+const withoutAttachments = (msg: Message): Message => ({
+  ...msg,
+  attachments: undefined,
+  text: `${msg.text}\n\n${msg.attachments!.map(att => `[Attachment "${att.name}" was removed to save context]`).join('\n')}`,
+});
+
+const sumTokens = (messages: Message[]) => messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+
+// Bazı API'ler geçmişin kullanıcı mesajıyla başlamasını ister
+const startAtUserTurn = (messages: Message[]): Message[] => {
+  const firstUser = messages.findIndex(msg => msg.role === 'user');
+  return firstUser === -1 ? [] : messages.slice(firstUser);
+};
+
+/**
+ * Decides which turns of `history` fit into the context limit, applying the session's policy.
+ * `reserved` is the token cost of everything sent besides the history (system prompt, new prompt).
+ * Whatever the policy, the newest turns are kept first; if even they do not fit, the history is empty.
+ */
+export const planContext = (history: Message[], reserved: number, settings: ContextSettings): ContextPlan => {
+  const eligible = getHistoryMessages(history);
+  const budget = Math.max(0, settings.limit - reserved);
+  const record = { sentIds: eligible.map(m => m.id), omittedIds: [] as string[], summarizedIds: [] as string[], strippedIds: [] as string[], limit: settings.limit };
+
+  if (sumTokens(eligible) <= budget) {
+    return { history: eligible, toSummarize: [], record };
+  }
+
+  let candidates = eligible;
+
+  // 1. Eski mesajlardaki ekleri at (en eskiden başlayarak), son tur dokunulmaz
+  if (settings.policy === 'drop-attachments') {
+    candidates = [...eligible];
+    for (let i = 0; i < candidates.length - 1 && sumTokens(candidates) > budget; i++) {
+      if (candidates[i].attachments?.length) {
+        record.strippedIds.push(candidates[i].id);
+        candidates[i] = withoutAttachments(candidates[i]);
+      }
+    }
+  }
+
+  // 2. Hâlâ sığmıyorsa en yeni turlardan geriye doğru sığanları tut
+  const keepBudget = settings.policy === 'summarize' ? budget * (1 - SUMMARY_SHARE) : budget;
+  let kept: Message[] = [];
+  let used = 0;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const cost = estimateMessageTokens(candidates[i]);
+    if (used + cost > keepBudget) break;
+    kept.unshift(candidates[i]);
+    used += cost;
+  }
+  kept = startAtUserTurn(kept);
+
+  const keptIds = new Set(kept.map(m => m.id));
+  const dropped = eligible.filter(m => !keptIds.has(m.id));
+  record.sentIds = kept.map(m => m.id);
+  record.strippedIds = record.strippedIds.filter(id => keptIds.has(id));
+
+  if (settings.policy === 'summarize') {
+    record.summarizedIds = dropped.map(m => m.id);
+    return { history: kept, toSummarize: dropped, record };
+  }
+  record.omittedIds = dropped.map(m => m.id);
+  return { history: kept, toSummarize: [], record };
+};
+
+// --- ÖZETLEME ---
+
+const toTranscript = (messages: Message[]): string => {
+  return messages.map(msg => {
+    const author = msg.role === 'user' ? 'User' : 'Assistant';
+    const files = msg.attachments?.length ? ` (attached: ${msg.attachments.map(a => a.name).join(', ')})` : '';
+    return `${author}${files}: ${msg.text}`;
+  }).join('\n\n');
+};
+
+/**
+ * Summarizes `messages` with the session's own model. When a previous summary covers an earlier
+ * part of the same branch, only the turns after it are summarized together with it.
+ */
+export const summarizeTurns = async (
+  messages: Message[],
+  previous: ContextSummary | undefined,
+  settings: ProviderSettings,
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<ContextSummary> => {
+  const upToId = messages[messages.length - 1].id;
+  if (previous?.upToId === upToId) return previous;
+
+  const previousIndex = previous ? messages.findIndex(m => m.id === previous.upToId) : -1;
+  const newTurns = previousIndex >= 0 ? messages.slice(previousIndex + 1) : messages;
+  const prompt = previousIndex >= 0
+    ? `Summary so far:\n${previous!.text}\n\nConversation that followed:\n${toTranscript(newTurns)}`
+    : toTranscript(newTurns);
+
+  const text = await generateText({
+    prompt,
+    attachments: [],
+    history: [],
+    config: { thinkingBudget: 0 },
+    settings,
+    systemInstruction: SUMMARY_INSTRUCTION,
+    signal,
+  }, onUsage);
+  // Durdurulan ya da boş dönen özet kaydedilirse aynı upToId ile sonraki isteklerde de kullanılırdı
+  if (signal?.aborted) throw new DOMException('The summary was stopped.', 'AbortError');
+  if (!text.trim()) throw new Error('The summary of earlier turns came back empty.');
+  return { upToId, text };
+};
+
+/**
+ * Appends the summary of earlier turns to the system instruction, so the remaining
+ * history can still start with a user turn.
+ */
+export const withSummary = (systemInstruction: string, summary?: ContextSummary): string => {
+  if (!summary) return systemInstruction;
+  return `${systemInstruction}\n\nSummary of the earlier part of this conversation (older turns are not included below):\n${summary.text}`;
+};
+
+export const formatTokenCount = (tokens: number): string => {
+  return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(tokens < 10000 ? 1 : 0)}k`;
+};
@@ -0,0 +1,91 @@
+import { Sealed, WrappedKey } from "../types";
+
+// OWASP önerisi (PBKDF2-HMAC-SHA256); kilit açma tarayıcıda ~0.5 sn sürer
+export const PBKDF2_ITERATIONS = 310000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * A data key held in memory while the vault is unlocked. Both halves are non-extractable:
+ * AES-GCM encrypts the records, HMAC hashes the search terms.
+ */
+export interface DataKey {
+  id: string;
+  encryptKey: CryptoKey;
+  macKey: CryptoKey;
+}
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Derives the key that wraps the data keys from the passphrase.
+ */
+export const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// 32 bayt şifreleme + 32 bayt HMAC anahtarı
+export const createRawDataKey = (): { id: string; raw: Uint8Array } => ({
+  id: `key-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  raw: randomBytes(64),
+});
+
+export const importDataKey = async (id: string, raw: Uint8Array): Promise<DataKey> => ({
+  id,
+  encryptKey: await crypto.subtle.importKey('raw', raw.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+  macKey: await crypto.subtle.importKey('raw', raw.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+});
+
+// Anahtar kimliği ek veri olarak bağlanır; sarılmış anahtarlar yer değiştirilemez
+export const wrapDataKey = async (wrappingKey: CryptoKey, id: string, raw: Uint8Array): Promise<WrappedKey> => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(id) }, wrappingKey, raw);
+  return { id, iv, data };
+};
+
+/**
+ * Unwraps a data key. AES-GCM authenticates the result, so a wrong passphrase makes this throw.
+ */
+export const unwrapDataKey = async (wrappingKey: CryptoKey, wrapped: WrappedKey): Promise<Uint8Array> => {
+  const raw = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: wrapped.iv, additionalData: encoder.encode(wrapped.id) },
+    wrappingKey,
+    wrapped.data
+  );
+  return new Uint8Array(raw);
+};
+
+export const sealBytes = async (key: DataKey, bytes: BufferSource): Promise<Sealed> => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key.encryptKey, bytes);
+  return { keyId: key.id, iv, data };
+};
+
+export const openBytes = (key: DataKey, sealed: Sealed): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key.encryptKey, sealed.data);
+};
+
+export const sealJson = (key: DataKey, value: unknown): Promise<Sealed> => {
+  return sealBytes(key, encoder.encode(JSON.stringify(value)));
+};
+
+export const openJson = async <T>(key: DataKey, sealed: Sealed): Promise<T> => {
+  return JSON.parse(decoder.decode(await openBytes(key, sealed)));
+};
+
+/**
+ * Keyed hash of a search term. The index can be queried with exact lookups
+ * without storing the words themselves; equal words still give equal hashes.
+ */
+export const hashTerm = async (key: DataKey, term: string): Promise<string> => {
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key.macKey, encoder.encode(term)));
+  return btoa(String.fromCharCode(...mac.subarray(0, 16)));
+};
@@ -0,0 +1,128 @@
+type DiagramResult = { svg: string } | { error: string };
+
+// Aynı kaynak bir kez çizilir; akış sırasında HTML her parçada yenilense de diyagram titremez
+const cache = new Map<string, DiagramResult>();
+// Yarım akışlarda her parça ayrı kaynak olduğundan önbellek sınırlı tutulur
+const MAX_CACHED = 100;
+
+let mermaidPromise: Promise<typeof import('mermaid')['default']> | undefined;
+
+// Mermaid büyük bir paket; sadece diyagram içeren bir mesaj görününce yüklenir
+const loadMermaid = () => {
+  mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => {
+    mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+    return mermaid;
+  });
+  return mermaidPromise;
+};
+
+let renderCount = 0;
+
+const renderDiagram = async (source: string): Promise<DiagramResult> => {
+  const cached = cache.get(source);
+  if (cached) return cached;
+  let result: DiagramResult;
+  try {
+    const mermaid = await loadMermaid();
+    // parse önce: geçersiz kaynakta render sayfaya hata diyagramı bırakabiliyor
+    if (!(await mermaid.parse(source, { suppressErrors: true }))) {
+      result = { error: 'The diagram source is not valid Mermaid syntax.' };
+    } else {
+      const { svg } = await mermaid.render(`mermaid-diagram-${++renderCount}`, source);
+      result = { svg };
+    }
+  } catch (error: any) {
+    result = { error: error?.message || 'The diagram could not be rendered.' };
+  }
+  cache.set(source, result);
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!);
+  return result;
+};
+
+const applyResult = (block: HTMLElement, result: DiagramResult) => {
+  const view = block.querySelector<HTMLElement>('.diagram-view')!;
+  if ('svg' in result) {
+    view.innerHTML = result.svg;
+    block.classList.remove('show-source');
+    block.dataset.state = 'rendered';
+  } else {
+    view.textContent = result.error;
+    block.classList.add('show-source');
+    block.dataset.state = 'error';
+  }
+};
+
+const createButton = (label: string, title: string) => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.dataset.diagramAction = 'toggle';
+  button.textContent = label;
+  button.title = title;
+  return button;
+};
+
+/**
+ * Replaces ```mermaid fences of sanitized Markdown with diagram blocks. Diagrams that were
+ * rendered before are inserted right away; the rest show their source until `renderDiagrams` runs.
+ */
+export const prepareDiagrams = (root: DocumentFragment) => {
+  root.querySelectorAll('pre > code.language-mermaid').forEach(code => {
+    const source = code.textContent || '';
+    const block = document.createElement('div');
+    block.className = 'diagram-block show-source';
+    block.dataset.state = 'pending';
+
+    const header = document.createElement('div');
+    header.className = 'code-block-header';
+    const label = document.createElement('span');
+    label.textContent = 'mermaid';
+    const actions = document.createElement('div');
+    actions.className = 'code-block-actions';
+    actions.append(createButton('Source', 'Show the diagram source'));
+    header.append(label, actions);
+
+    const view = document.createElement('div');
+    view.className = 'diagram-view';
+    const pre = document.createElement('pre');
+    pre.className = 'diagram-source';
+    pre.textContent = source;
+
+    block.append(header, view, pre);
+    const cached = cache.get(source);
+    if (cached) applyResult(block, cached);
+    code.parentElement!.replaceWith(block);
+  });
+};
+
+/**
+ * Renders the pending diagram blocks inside `container` locally with Mermaid.
+ * Invalid sources (also half-streamed ones) keep showing the source with the error.
+ */
+export const renderDiagrams = async (container: HTMLElement) => {
+  const blocks = Array.from(container.querySelectorAll<HTMLElement>('.diagram-block[data-state="pending"]'));
+  for (const block of blocks) {
+    block.dataset.state = 'rendering';
+    const source = block.querySelector('.diagram-source')?.textContent || '';
+    const result = await renderDiagram(source);
+    // Beklerken içerik yenilendiyse eski blok artık sayfada değildir
+    if (block.isConnected) applyResult(block, result);
+  }
+};
+
+/**
+ * Click handler for the diagram header: switches between the diagram and its source.
+ * Returns true if the click was on a diagram toggle.
+ */
+export const toggleDiagramSource = (target: EventTarget | null): boolean => {
+  const button = target instanceof Element ? target.closest<HTMLElement>('button[data-diagram-action]') : null;
+  const block = button?.closest<HTMLElement>('.diagram-block');
+  if (!button || !block || block.dataset.state !== 'rendered') return false;
+  const showSource = block.classList.toggle('show-source');
+  button.textContent = showSource ? 'Diagram' : 'Source';
+  return true;
+};
+
+// Kilitlenince çizilmiş diyagramlar (sohbet içeriği) bellekten atılır
+export const clearDiagramCache = () => {
+  cache.clear();
+};
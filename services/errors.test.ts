@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError } from './errors';
+
+describe('classifyError', () => {
+  it.each([
+    ['This model\'s maximum context length is 8192 tokens', 'context-length'],
+    ['The prompt is too long for the context window', 'context-length'],
+    ['Request took too long to complete', 'overloaded'],
+    ['Deadline exceeded: the request timed out', 'overloaded'],
+  ])('%s -> %s', (message, kind) => {
+    expect(classifyError(undefined, message)).toBe(kind);
+  });
+
+  it('tells a content block from a blocked key or referer', () => {
+    expect(classifyError(undefined, 'Response was blocked due to SAFETY')).toBe('safety');
+    expect(classifyError(400, 'The prompt was blocked (PROHIBITED_CONTENT).')).toBe('safety');
+    expect(classifyError(400, 'The response was filtered due to content_filter')).toBe('safety');
+    expect(classifyError(undefined, 'API key blocked')).toBe('auth');
+    expect(classifyError(403, 'Requests from this referer are blocked.')).toBe('auth');
+  });
+
+  it('tells a rate limit from an exhausted plan quota', () => {
+    expect(classifyError(429, 'Rate limit reached. See the explanation in the docs.')).toBe('rate-limit');
+    expect(classifyError(429, 'You exceeded your current quota, please check your plan and billing details.')).toBe('quota');
+  });
+});
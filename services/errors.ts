@@ -0,0 +1,115 @@
+import { ErrorKind } from "../types";
+
+/**
+ * A provider failure with its kind, so the UI can explain it and transient ones can be retried.
+ */
+export class ProviderError extends Error {
+  kind: ErrorKind;
+  status?: number;
+  retryAfterMs?: number; // Sunucunun önerdiği bekleme (Retry-After / RetryInfo)
+
+  constructor(kind: ErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export const ERROR_DETAILS: Record<ErrorKind, { title: string; hint: string }> = {
+  auth: { title: 'Authentication failed', hint: 'Check the API key of the provider in Settings.' },
+  'rate-limit': { title: 'Rate limited', hint: 'Too many requests in a short time. Wait a moment and retry.' },
+  quota: { title: 'Quota exhausted', hint: 'The plan or billing quota of this key is used up.' },
+  network: { title: 'Network error', hint: 'The server could not be reached. Check your connection or the base URL.' },
+  overloaded: { title: 'Server overloaded', hint: 'The model server is busy or failing. Retrying later usually works.' },
+  safety: { title: 'Blocked by safety filters', hint: 'Rephrase the message or adjust the safety settings.' },
+  'context-length': { title: 'Conversation too long', hint: 'Lower the context limit, start a new chat or remove attachments.' },
+  unknown: { title: 'Request failed', hint: 'See the details below.' },
+};
+
+// Kısa süre sonra kendiliğinden düzelebilen hatalar otomatik yeniden denenir
+const RETRYABLE: ErrorKind[] = ['rate-limit', 'network', 'overloaded'];
+
+export const isRetryable = (error: unknown): error is ProviderError => {
+  return error instanceof ProviderError && RETRYABLE.includes(error.kind);
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, the other half random,
+ * so clients that failed together do not retry together. A delay the server asked for is respected.
+ */
+export const getRetryDelay = (attempt: number, error?: ProviderError): number => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  const delay = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.max(delay, error?.retryAfterMs || 0);
+};
+
+/**
+ * Classifies a failure from its HTTP status and message (both providers use the same wording heuristics).
+ */
+export const classifyError = (status: number | undefined, message: string): ErrorKind => {
+  const text = message.toLowerCase();
+  // "blocked" tek başına anahtar/referer engellerini de yakalar ("API key blocked"); sadece içerik engeli için geçerli
+  if (/\bsafety\b|(prompt|response|candidate|content|output) (was|is) blocked|prohibited_content|content_filter|content management policy/.test(text)) {
+    return 'safety';
+  }
+  // "too long" tek başına zaman aşımlarını da yakalar ("request took too long"); sadece istem/bağlam için geçerli
+  if (/context (length|window|size)|context_length|too many tokens|token count|maximum number of tokens|(prompt|input|message) is too long/.test(text)) {
+    return 'context-length';
+  }
+  if (status === 401 || status === 403 || /api key|api_key|unauthorized|permission denied/.test(text)) return 'auth';
+  if (status === 429 || /resource_exhausted|rate limit|quota/.test(text)) {
+    // Dakikalık sınır beklenince açılır; plan/faturalama kotası beklemekle açılmaz
+    return /insufficient_quota|billing|per day|\bplan\b/.test(text) ? 'quota' : 'rate-limit';
+  }
+  if (status !== undefined && (status === 408 || status >= 500)) return 'overloaded';
+  if (/overloaded|unavailable|try again later|timed out|timeout|took too long/.test(text)) return 'overloaded';
+  if (/failed to fetch|networkerror|network error|load failed|fetch failed|econnrefused/.test(text)) return 'network';
+  return 'unknown';
+};
+
+// Gemini hata metni genelde JSON'dur: {"error":{"code":429,"message":"...","details":[...]}}
+const parseApiMessage = (message: string): { text: string; retryAfterMs?: number } => {
+  const start = message.indexOf('{');
+  if (start === -1) return { text: message };
+  try {
+    const json = JSON.parse(message.slice(start));
+    const retryDelay = JSON.stringify(json).match(/"retryDelay":"(\d+(?:\.\d+)?)s"/);
+    return {
+      text: json?.error?.message || message,
+      retryAfterMs: retryDelay ? Number(retryDelay[1]) * 1000 : undefined,
+    };
+  } catch {
+    return { text: message };
+  }
+};
+
+/**
+ * Turns anything a provider SDK or fetch throws into a ProviderError.
+ */
+export const toProviderError = (error: any): ProviderError => {
+  if (error instanceof ProviderError) return error;
+  const raw = error?.message || 'An unexpected error occurred while communicating with the model.';
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  const { text, retryAfterMs } = parseApiMessage(raw);
+  return new ProviderError(classifyError(status, raw), text, { status, retryAfterMs });
+};
+
+/**
+ * Builds the error for a failed HTTP response (OpenAI-compatible servers).
+ * `Retry-After` is either seconds or an HTTP date.
+ */
+export const fromHttpResponse = (status: number, statusText: string, body: string, retryAfter: string | null): ProviderError => {
+  let retryAfterMs: number | undefined;
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    retryAfterMs = Number.isFinite(seconds) ? seconds * 1000 : Math.max(0, Date.parse(retryAfter) - Date.now()) || undefined;
+  }
+  const { text } = parseApiMessage(body);
+  const message = `${status} ${statusText} ${text}`.trim();
+  return new ProviderError(classifyError(status, `${message} ${body}`), message, { status, retryAfterMs });
+};
@@ -0,0 +1,37 @@
+import { Folder, SessionMeta } from "../types";
+
+export const createFolder = (name: string): Folder => ({
+  id: `folder-${Date.now()}`,
+  name: name.trim(),
+  createdAt: Date.now(),
+});
+
+/**
+ * Parses free-form tag input ("work, #ideas, Work") into a clean list:
+ * trimmed, without a leading '#', duplicates (case-insensitive) removed.
+ */
+export const parseTags = (input: string): string[] => {
+  const tags: string[] = [];
+  input.split(',').forEach(raw => {
+    const tag = raw.trim().replace(/^#+/, '').trim();
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  return tags;
+};
+
+// Filtre çubuğu için; alfabetik, her etiket bir kez
+export const getAllTags = (sessions: SessionMeta[]): string[] => {
+  const tags = new Map<string, string>();
+  sessions.forEach(s => s.tags.forEach(tag => {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }));
+  return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * A session matches the tag filter if it has every selected tag.
+ */
+export const hasAllTags = (session: SessionMeta, selected: string[]): boolean => {
+  const own = session.tags.map(t => t.toLowerCase());
+  return selected.every(tag => own.includes(tag.toLowerCase()));
+};
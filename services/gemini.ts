@@ -1,116 +1,199 @@
-import { GoogleGenAI, Content, Part } from "@google/genai";
-import { GeminiConfig, Message, Attachment } from "../types";
+import {
+  GoogleGenAI, Content, Part, FunctionCall, GenerateContentResponseUsageMetadata,
+  HarmCategory, HarmBlockThreshold, SafetySetting, FinishReason as GeminiFinishReason, SafetyRating as GeminiSafetyRating
+} from "@google/genai";
+import {
+  Attachment, FinishReason, GeminiConfig, GenerationRequest, MessagePart, ModelProvider, ProviderSettings,
+  SafetyCategory, SafetyRating, SafetyThreshold, StreamEvent, TokenUsage, ToolStep
+} from "../types";
+import { isTextBased } from "./attachments";
+import { formatTextAttachment, getAttachmentBase64 } from "./attachmentStore";
+import { getHistoryMessages, getHistoryText } from "./history";
+import { MAX_TOOL_ROUNDS, runToolCall, toToolResponse, toolLimitError } from "./tools";
+import { addTokenUsage } from "./usage";
+import { ProviderError, toProviderError } from "./errors";
 
-// API Key kontrolü (Genellikle env dosyasından gelir)
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// API Key kontrolü (Genellikle env dosyasından gelir, ayarlardan da verilebilir)
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (settings: ProviderSettings): GoogleGenAI => {
+  const apiKey = settings.apiKey || process.env.API_KEY || '';
+  if (!apiKey) {
+    throw new ProviderError('auth', 'No Gemini API key is set. Add one in Settings.');
+  }
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
+};
+
+// Ek içeriği gönderim anında ek deposundan yüklenir
+const attachmentToPart = async (att: Attachment): Promise<Part> => {
+  // If it's a text-based attachment (CSV, Code, JSON, XML), decode and add as text
+  if (isTextBased(att.mimeType)) {
+    return { text: await formatTextAttachment(att) };
+  }
+  // Images, PDF, Video, Audio
+  return {
+    inlineData: {
+      mimeType: att.mimeType,
+      data: await getAttachmentBase64(att)
+    }
+  };
+};
+
+// Metin dışı cevap parçaları; tanınmayanlar (ör. functionCall) undefined döner
+const toMessagePart = (part: Part): MessagePart | undefined => {
+  if (part.inlineData?.data) {
+    const mimeType = part.inlineData.mimeType || 'application/octet-stream';
+    return mimeType.startsWith('image/')
+      ? { type: 'image', mimeType, data: part.inlineData.data }
+      : { type: 'file', mimeType, data: part.inlineData.data };
+  }
+  if (part.fileData?.fileUri) {
+    return { type: 'file', mimeType: part.fileData.mimeType || 'application/octet-stream', uri: part.fileData.fileUri };
+  }
+  if (part.executableCode) {
+    return { type: 'code', language: (part.executableCode.language || 'python').toLowerCase(), code: part.executableCode.code || '' };
+  }
+  if (part.codeExecutionResult) {
+    const outcome = part.codeExecutionResult.outcome;
+    return {
+      type: 'code-result',
+      outcome: outcome === 'OUTCOME_OK' ? 'ok' : outcome === 'OUTCOME_DEADLINE_EXCEEDED' ? 'timeout' : 'failed',
+      output: part.codeExecutionResult.output || '',
+    };
+  }
+  return undefined;
+};
+
+const SAFETY_CATEGORY_MAP: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  'hate-speech': HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  'sexually-explicit': HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  'dangerous-content': HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const SAFETY_THRESHOLD_MAP: Record<SafetyThreshold, HarmBlockThreshold> = {
+  off: HarmBlockThreshold.OFF,
+  'block-none': HarmBlockThreshold.BLOCK_NONE,
+  'block-only-high': HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  'block-medium-and-above': HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  'block-low-and-above': HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+// Ayarlanmamış kategoriler gönderilmez, model varsayılanı geçerli olur
+const toSafetySettings = (settings: GeminiConfig['safetySettings']): SafetySetting[] | undefined => {
+  const entries = Object.entries(settings || {}) as [SafetyCategory, SafetyThreshold][];
+  if (entries.length === 0) return undefined;
+  return entries.map(([category, threshold]) => ({
+    category: SAFETY_CATEGORY_MAP[category],
+    threshold: SAFETY_THRESHOLD_MAP[threshold],
+  }));
+};
+
+const toFinishReason = (reason: GeminiFinishReason): FinishReason => {
+  switch (reason) {
+    case GeminiFinishReason.STOP:
+      return 'stop';
+    case GeminiFinishReason.MAX_TOKENS:
+      return 'max-tokens';
+    case GeminiFinishReason.SAFETY:
+    case GeminiFinishReason.IMAGE_SAFETY:
+      return 'safety';
+    case GeminiFinishReason.RECITATION:
+      return 'recitation';
+    case GeminiFinishReason.PROHIBITED_CONTENT:
+    case GeminiFinishReason.BLOCKLIST:
+    case GeminiFinishReason.SPII:
+      return 'prohibited';
+    default:
+      return 'other';
+  }
+};
+
+// HARM_CATEGORY_HATE_SPEECH -> 'hate-speech', HIGH -> 'high'
+const toSafetyRating = (rating: GeminiSafetyRating): SafetyRating => ({
+  category: (rating.category || 'unknown').replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, '-'),
+  probability: (['NEGLIGIBLE', 'LOW', 'MEDIUM', 'HIGH'].includes(rating.probability || '')
+    ? rating.probability!.toLowerCase()
+    : 'unknown') as SafetyRating['probability'],
+  ...(rating.blocked && { blocked: true }),
+});
+
+const toTokenUsage = (meta: GenerateContentResponseUsageMetadata): TokenUsage => ({
+  promptTokens: meta.promptTokenCount || 0,
+  candidateTokens: meta.candidatesTokenCount || 0,
+  thinkingTokens: meta.thoughtsTokenCount || 0,
+  cachedTokens: meta.cachedContentTokenCount || 0,
+  totalTokens: meta.totalTokenCount || 0,
+});
 
 /**
- * Generates content using the Gemini 3 Pro model within a chat session using streaming.
- * @param prompt The user's input prompt.
- * @param attachments Optional file attachments for the prompt.
- * @param history The previous chat history (excluding the current prompt).
- * @param config Configuration options (e.g., thinking budget).
+ * Generates content using a Gemini model within a chat session using streaming.
+ * @param request Prompt, attachments, history (excluding the current prompt), generation config,
+ * provider settings, the persona's system instruction, an optional abort signal and optional tools.
+ * When the model calls tools, they are run here and their results are sent back until a final answer arrives.
  */
-export const generateContentStream = async function* (
-  prompt: string, 
-  attachments: Attachment[], 
-  history: Message[], 
-  config: GeminiConfig
-): AsyncGenerator<string, void, unknown> {
+const generateContentStream = async function* ({
+  prompt,
+  attachments,
+  history,
+  config,
+  settings,
+  systemInstruction,
+  signal,
+  tools,
+  toolContext
+}: GenerationRequest): AsyncGenerator<StreamEvent, void, unknown> {
   try {
-    // 1. GÜNCEL TARİHİ AL (Dinamik olarak)
-    const currentDate = new Date().toLocaleDateString("tr-TR", { 
-        weekday: 'long', 
-        year: 'numeric', 
-        month: 'long', 
-        day: 'numeric' 
-    });
-
-    // 2. SİSTEM TALİMATINI HAZIRLA (Modelin kimliği ve tarih)
-    // Modelin kafasının karışmaması için instruction'ı İngilizce verip Türkçe konuşmasını istemek genelde daha stabil çalışır.
-    const systemInstruction = `
-      You are Gemini 3.0 Pro, a next-generation AI model created by Google.
-      Today's date is ${currentDate}.
-      
-      Your knowledge cutoff is NOT 2024. You are aware of the current date provided above.
-      Always answer in the language the user speaks (mostly Turkish).
-      If asked about your version, state clearly that you are Gemini 3.0 Pro.
-    `;
-
-    // Helper to determine if an attachment should be treated as text (included in prompt)
-    // or binary inlineData (images, PDF, audio, video)
-    const isTextBased = (mimeType: string) => {
-        return mimeType === 'text/csv' || 
-               mimeType.startsWith('text/') || 
-               mimeType === 'application/json' ||
-               mimeType === 'application/xml' ||
-               mimeType.includes('javascript') ||
-               mimeType.includes('typescript') ||
-               mimeType.includes('script');
-    };
+    const ai = getClient(settings);
 
     // Map existing messages to Gemini Content format for the history
-    const formattedHistory: Content[] = history
-      .filter(msg => !msg.isError)
-      .map(msg => {
-        const parts: Part[] = [{ text: msg.text }];
+    const formattedHistory: Content[] = await Promise.all(getHistoryMessages(history)
+      .map(async msg => {
+        const parts: Part[] = [{ text: getHistoryText(msg) }];
         if (msg.attachments && msg.attachments.length > 0) {
-            msg.attachments.forEach(att => {
-                // If it's a text-based attachment (CSV, Code, JSON, XML), decode and add as text
-                if (isTextBased(att.mimeType)) {
-                    const decodedText = decodeURIComponent(escape(atob(att.data)));
-                    parts.push({
-                         text: `\n[Attachment: ${att.name}]\n${decodedText}\n[End Attachment]\n`
-                    });
-                } else {
-                    // Images, PDF, Video, Audio
-                    parts.push({
-                        inlineData: {
-                            mimeType: att.mimeType,
-                            data: att.data
-                        }
-                    });
-                }
-            });
+            parts.push(...await Promise.all(msg.attachments.map(attachmentToPart)));
         }
         return {
             role: msg.role === 'user' ? 'user' : 'model', // SDK genelde 'model' bekler, verindeki role yapısına dikkat et
             parts: parts,
         };
-      });
+      }));
 
-    // 3. CHAT OTURUMUNU BAŞLATIRKEN SYSTEM INSTRUCTION'I EKLE
+    // CHAT OTURUMUNU BAŞLATIRKEN SYSTEM INSTRUCTION'I EKLE
     const chat = ai.chats.create({
-      model: 'gemini-3-pro-preview', // Model isminin doğruluğundan emin ol (örn: gemini-2.0-flash-thinking-exp vb. olabilir)
+      model: settings.model || geminiProvider.defaultModel,
       history: formattedHistory,
       config: {
-        systemInstruction: systemInstruction, // <-- EKLENEN KISIM
+        systemInstruction: systemInstruction,
         thinkingConfig: {
           thinkingBudget: config.thinkingBudget > 0 ? config.thinkingBudget : 0,
+          includeThoughts: true, // Düşünce özetleri ayrı parçalar olarak gelir (part.thought)
         },
+        // Boş (undefined) ayarlar gönderilmez, model varsayılanı kullanılır
+        temperature: config.temperature,
+        topP: config.topP,
+        topK: config.topK,
+        maxOutputTokens: config.maxOutputTokens,
+        stopSequences: config.stopSequences?.length ? config.stopSequences : undefined,
+        seed: config.seed,
+        safetySettings: toSafetySettings(config.safetySettings),
+        tools: tools?.length
+          ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+          : undefined,
       },
     });
 
     // Prepare current message parts
     const currentParts: Part[] = [];
-    
+
     // Add attachments if any
     if (attachments && attachments.length > 0) {
-        attachments.forEach(att => {
-            if (isTextBased(att.mimeType)) {
-                const decodedText = decodeURIComponent(escape(atob(att.data)));
-                currentParts.push({
-                     text: `\n[Attachment: ${att.name}]\n${decodedText}\n[End Attachment]\n`
-                });
-            } else {
-                currentParts.push({
-                    inlineData: {
-                        mimeType: att.mimeType,
-                        data: att.data
-                    }
-                });
-            }
-        });
+        currentParts.push(...await Promise.all(attachments.map(attachmentToPart)));
     }
 
     // Add text if present (Gemini requires at least one part)
@@ -123,21 +206,99 @@ export const generateContentStream = async function* (
 
     // Since chat.sendMessageStream expects a string 'message' OR 'content' (which can be parts),
     // Construct the payload correctly for the SDK
-    const result = await chat.sendMessageStream({ 
-        message: currentParts 
-    });
-    
-    for await (const chunk of result) {
-      if (chunk.text) {
-        yield chunk.text;
+    let message: Part[] = currentParts;
+    let totalUsage: TokenUsage | undefined;
+    let modelVersion: string | undefined;
+    let finishReason: FinishReason | undefined;
+    let safetyRatings: SafetyRating[] | undefined;
+    let toolLimitReached = false;
+
+    // Her tur: modelin cevabını akıt; araç çağrısı varsa çalıştırıp sonuçlarıyla yeni tur başlat.
+    // Chat nesnesi çağrıları (ve thought signature'ları) kendi geçmişinde tutar.
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const result = await chat.sendMessageStream({
+          message,
+          config: { abortSignal: signal }
+      });
+
+      // Kullanım bilgisi her parçada kümülatif gelir, sonuncusu geçerlidir
+      let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+      const functionCalls: FunctionCall[] = [];
+
+      for await (const chunk of result) {
+        if (signal?.aborted) return;
+        // İstem engellenirse aday gelmez, sadece sebep bildirilir
+        if (chunk.promptFeedback?.blockReason) {
+          throw new ProviderError('safety', chunk.promptFeedback.blockReasonMessage || `The prompt was blocked (${chunk.promptFeedback.blockReason}).`);
+        }
+        usageMetadata = chunk.usageMetadata || usageMetadata;
+        modelVersion = chunk.modelVersion || modelVersion;
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.finishReason) finishReason = toFinishReason(candidate.finishReason);
+        if (candidate?.safetyRatings?.length) safetyRatings = candidate.safetyRatings.map(toSafetyRating);
+        // chunk.text düşünce ve metin dışı parçaları atlar, bu yüzden parçalar tek tek okunur
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          if (part.functionCall) functionCalls.push(part.functionCall);
+          if (part.text) {
+            yield part.thought ? { type: 'thought', text: part.text } : { type: 'text', text: part.text };
+            continue;
+          }
+          const messagePart = toMessagePart(part);
+          if (messagePart) yield { type: 'part', part: messagePart };
+        }
+      }
+      if (usageMetadata) totalUsage = addTokenUsage(totalUsage, toTokenUsage(usageMetadata));
+
+      if (functionCalls.length === 0 || !toolContext) break;
+      if (round === MAX_TOOL_ROUNDS) {
+        toolLimitReached = true;
+        break;
       }
+
+      message = [];
+      for (const [index, call] of functionCalls.entries()) {
+        const step: ToolStep = { id: call.id || `${round}-${index}`, name: call.name || '', args: call.args || {} };
+        yield { type: 'tool-call', step };
+        const finished = await runToolCall(step, toolContext);
+        yield { type: 'tool-result', step: finished };
+        message.push({ functionResponse: { id: call.id, name: call.name, response: toToolResponse(finished) } });
+      }
+    }
+
+    if (finishReason && !toolLimitReached) {
+      yield { type: 'finish', reason: finishReason, safetyRatings };
+    }
+    if (totalUsage) {
+      yield { type: 'usage', usage: totalUsage, model: modelVersion };
     }
+    // Kullanım yine de kaydedilsin diye hata en sonda verilir
+    if (toolLimitReached) throw toolLimitError();
 
   } catch (error: any) {
     console.error("Gemini API Error:", error);
-    if (error.message) {
-        throw new Error(`Gemini API Error: ${error.message}`);
+    throw toProviderError(error);
+  }
+};
+
+/**
+ * Lists the models available to the configured API key that support content generation.
+ */
+const listModels = async (settings: ProviderSettings): Promise<string[]> => {
+  const ai = getClient(settings);
+  const models: string[] = [];
+  const pager = await ai.models.list();
+  for await (const model of pager) {
+    if (model.name && (!model.supportedActions || model.supportedActions.includes('generateContent'))) {
+      models.push(model.name.replace(/^models\//, ''));
     }
-    throw new Error("An unexpected error occurred while communicating with Gemini.");
   }
-};
\ No newline at end of file
+  return models;
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-3-pro-preview',
+  generateContentStream,
+  listModels,
+};
@@ -0,0 +1,39 @@
+import { Message } from "../types";
+import { getMessageParts, partsToMarkdown } from "./parts";
+
+// Modelin yarım kalan cevabı tamamlanmış sanmaması için geçmişe eklenen not
+const STOPPED_NOTE = '[This response was stopped by the user before it was finished.]';
+const INTERRUPTED_NOTE = '[This response was interrupted before it was finished.]';
+
+// Yarım kalan cevabın devamı istenirken gönderilen istem (sohbette görünmez)
+export const CONTINUE_PROMPT = 'Your previous answer was cut off. Continue it exactly where it stopped, ' +
+  'without repeating anything you already wrote and without any preamble.';
+
+/**
+ * Filters the chat history down to the messages that should be sent to the model.
+ * Error messages and persona greetings are never sent; stopped, interrupted or blocked answers are only sent if they produced any text.
+ */
+export const getHistoryMessages = (history: Message[]): Message[] => {
+  return history.filter(msg => {
+    if (msg.isError || msg.isGreeting) return false;
+    const isCut = msg.isStopped || msg.isInterrupted || (!!msg.finishReason && msg.finishReason !== 'stop');
+    return !(isCut && !msg.text);
+  });
+};
+
+/**
+ * Returns the text of a history message as the model should see it.
+ * The UI "stopped" marker is a flag, so it is turned into an explicit note here.
+ * Code the model ran and its output are included as Markdown; images only as a note.
+ * Thoughts are display-only and are never part of the history.
+ */
+export const getHistoryText = (msg: Message): string => {
+  const text = partsToMarkdown(getMessageParts(msg));
+  if (msg.isStopped) {
+    return `${text}\n\n${STOPPED_NOTE}`;
+  }
+  if (msg.isInterrupted) {
+    return `${text}\n\n${INTERRUPTED_NOTE}`;
+  }
+  return text;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { loadRemoteImage, renderMarkdown } from './markdown';
+
+// Sonuç DOM'a çevrilip denetlenir; metin araması kaçışlı içerikte yanıltıcı olur
+const render = (text: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(text);
+  return container;
+};
+
+const hasEventHandlers = (root: HTMLElement) =>
+  Array.from(root.querySelectorAll('*')).some(el => Array.from(el.attributes).some(attr => attr.name.startsWith('on')));
+
+describe('renderMarkdown', () => {
+  describe('removes known XSS payloads', () => {
+    it('drops <script>', () => {
+      const root = render('Hi <script>alert(1)</script>');
+      expect(root.querySelector('script')).toBeNull();
+      expect(root.textContent).not.toContain('alert(1)');
+    });
+
+    it('drops <img onerror>', () => {
+      const root = render('<img src="x" onerror="alert(1)">');
+      expect(hasEventHandlers(root)).toBe(false);
+    });
+
+    it.each([
+      ['javascript:', '[click](javascript:alert(1))'],
+      ['javascript: in raw HTML', '<a href="JaVaScRiPt:alert(1)">click</a>'],
+      ['data:text/html', '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">click</a>'],
+    ])('drops %s links', (_name, text) => {
+      const root = render(text);
+      root.querySelectorAll('a').forEach(a => {
+        expect(a.getAttribute('href') || '').not.toMatch(/^\s*(javascript|data):/i);
+      });
+    });
+
+    it('drops <svg onload>', () => {
+      const root = render('<svg onload="alert(1)"><circle r="5"/></svg>');
+      expect(root.querySelector('svg')).toBeNull();
+      expect(hasEventHandlers(root)).toBe(false);
+    });
+
+    it('drops <iframe>', () => {
+      const root = render('<iframe src="https://evil.example/"></iframe>');
+      expect(root.querySelector('iframe')).toBeNull();
+    });
+
+    it('drops <style>', () => {
+      const root = render('<style>body { display: none }</style>text');
+      expect(root.querySelector('style')).toBeNull();
+      expect(root.textContent).not.toContain('display: none');
+    });
+  });
+
+  it('opens links in a new tab without an opener or referrer', () => {
+    const link = render('[site](https://example.com)').querySelector('a')!;
+    expect(link.getAttribute('target')).toBe('_blank');
+    expect(link.getAttribute('rel')).toBe('noopener noreferrer nofollow');
+  });
+
+  describe('remote images', () => {
+    it.each([
+      ['absolute', '![x](https://evil.example/p.png)', 'https://evil.example/p.png'],
+      ['protocol-relative Markdown', '![x](//evil.example/p.png)', 'http://evil.example/p.png'],
+      ['protocol-relative HTML', '<img src="//evil.example/p.gif">', 'http://evil.example/p.gif'],
+    ])('replaces %s sources with the click-to-load placeholder', (_name, text, resolved) => {
+      const root = render(text);
+      expect(root.querySelector('img')).toBeNull();
+      const button = root.querySelector<HTMLElement>('button.remote-image')!;
+      expect(button.dataset.remoteSrc).toBe(resolved);
+      expect(button.textContent).toContain('evil.example');
+    });
+
+    it('keeps inline data images', () => {
+      const root = render('![dot](data:image/png;base64,iVBORw0KGgo=)');
+      expect(root.querySelector('img')).not.toBeNull();
+      expect(root.querySelector('button.remote-image')).toBeNull();
+    });
+
+    it('loads the image when the placeholder is clicked', () => {
+      const root = render('![x](https://evil.example/p.png)');
+      const button = root.querySelector('button.remote-image')!;
+      expect(loadRemoteImage(button)).toBe(true);
+      const img = root.querySelector('img')!;
+      expect(img.getAttribute('src')).toBe('https://evil.example/p.png');
+      expect(img.referrerPolicy).toBe('no-referrer');
+    });
+  });
+});
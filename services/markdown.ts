@@ -0,0 +1,134 @@
+import { Marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { enhanceCodeBlocks } from './codeBlocks';
+import { MATH_EXTENSIONS, typesetMath } from './math';
+import { prepareDiagrams } from './diagrams';
+
+// Markdown'ın ürettiği etiketler dışında hiçbir şey geçmez (script, iframe, style, form, svg...)
+const ALLOWED_TAGS = [
+  'a', 'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'b', 'em', 'i', 'del', 's', 'sup', 'sub', 'kbd', 'mark',
+  'code', 'pre', 'blockquote', 'ul', 'ol', 'li', 'input',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  'img', 'span', 'div', 'details', 'summary',
+];
+
+const ALLOWED_ATTR = ['href', 'title', 'alt', 'src', 'class', 'align', 'start', 'type', 'checked', 'disabled', 'colspan', 'rowspan', 'open'];
+
+// Sadece kod bloklarının dil sınıfı kalır; Tailwind sınıflarıyla arayüz taklit edilemesin
+const ALLOWED_CLASS = /^language-[\w+#.-]+$/;
+
+// Tıklayınca yüklenebilecek adresler (placeholder'daki adres çözümlenmiş tam adrestir)
+const LOADABLE_PROTOCOL = /^https?:$/;
+
+const marked = new Marked({ extensions: MATH_EXTENSIONS });
+
+DOMPurify.addHook('uponSanitizeAttribute', (_node, data) => {
+  if (data.attrName === 'class' && !data.attrValue.split(/\s+/).every(c => ALLOWED_CLASS.test(c))) {
+    data.keepAttr = false;
+  }
+});
+
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.hasAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+});
+
+const resolveUrl = (src: string): URL | undefined => {
+  try {
+    return new URL(src, location.href);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Whether loading the source would contact another host. Relative and protocol-relative ("//host/x.png")
+ * sources are resolved first; only inline (data:, blob:) and same-origin sources load without a click.
+ */
+const isRemoteSource = (src: string): boolean => {
+  const url = resolveUrl(src);
+  if (!url) return true;
+  return url.protocol !== 'data:' && url.protocol !== 'blob:' && url.origin !== location.origin;
+};
+
+/**
+ * Remote images would leak the reader's IP (and that the message was read) to any host,
+ * so they are replaced by a button that loads the image on click. Inline data images are kept.
+ */
+const blockRemoteImages = (root: DocumentFragment) => {
+  root.querySelectorAll('img').forEach(img => {
+    const src = img.getAttribute('src');
+    if (!src || !isRemoteSource(src)) return;
+    const url = resolveUrl(src);
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'remote-image';
+    button.dataset.remoteSrc = url?.href || src;
+    button.dataset.alt = img.alt;
+    button.title = url?.href || src;
+    button.textContent = `Load image${img.alt ? ` "${img.alt}"` : ''} from ${url?.host || src}`;
+    img.replaceWith(button);
+  });
+};
+
+// Görev listesi kutuları salt okunur; başka input türü kalmaz
+const restrictInputs = (root: DocumentFragment) => {
+  root.querySelectorAll('input').forEach(input => {
+    if (input.type !== 'checkbox') {
+      input.remove();
+    } else {
+      input.disabled = true;
+    }
+  });
+};
+
+/**
+ * Renders Markdown (user or model text) to HTML that is safe for dangerouslySetInnerHTML:
+ * parsed with marked, sanitized with an allowlist, links open in a new tab without an opener,
+ * remote images are blocked until clicked (see `loadRemoteImage`), math is typeset, Mermaid
+ * blocks become diagram placeholders (see `renderDiagrams`) and code blocks are highlighted.
+ */
+export const renderMarkdown = (text: string): string => {
+  let html: string;
+  try {
+    html = marked.parse(text || '', { async: false });
+  } catch {
+    // Ayrıştırılamazsa düz metin olarak gösterilir (yine temizlenerek)
+    html = text;
+  }
+  const fragment = DOMPurify.sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOW_DATA_ATTR: false,
+    RETURN_DOM_FRAGMENT: true,
+  });
+  blockRemoteImages(fragment);
+  restrictInputs(fragment);
+  // Sıra önemli: matematik ve diyagram blokları kod bloğu olarak işlenmeden önce alınır
+  typesetMath(fragment);
+  prepareDiagrams(fragment);
+  enhanceCodeBlocks(fragment);
+
+  const container = document.createElement('div');
+  container.appendChild(fragment);
+  return container.innerHTML;
+};
+
+/**
+ * Click handler for rendered Markdown: swaps a blocked remote image placeholder for the image.
+ * Returns true if the click was on a placeholder.
+ */
+export const loadRemoteImage = (target: EventTarget | null): boolean => {
+  const button = target instanceof Element ? target.closest<HTMLElement>('button[data-remote-src]') : null;
+  const url = button?.dataset.remoteSrc ? resolveUrl(button.dataset.remoteSrc) : undefined;
+  if (!button || !url || !LOADABLE_PROTOCOL.test(url.protocol)) return false;
+  const img = document.createElement('img');
+  img.src = url.href;
+  img.alt = button.dataset.alt || '';
+  img.referrerPolicy = 'no-referrer';
+  button.replaceWith(img);
+  return true;
+};
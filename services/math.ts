@@ -0,0 +1,63 @@
+import katex from 'katex';
+import { TokenizerAndRendererExtension } from 'marked';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Matematik önce kod etiketi olarak işaretlenir; temizleyiciden sonra KaTeX ile dizilir
+const mathCode = (tex: string) => `<code class="language-math">${escapeHtml(tex)}</code>`;
+
+const BLOCK_MATH = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n|$)/;
+// "$5 and $10" fiyat olarak kalsın: açılıştan sonra ve kapanıştan önce boşluk yok, kapanıştan sonra rakam yok
+const INLINE_MATH = /^(?:\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)|\\\((.+?)\\\))/;
+
+/**
+ * Marked extensions for `$$...$$` / `\[...\]` blocks and `$...$` / `\(...\)` inline math.
+ */
+export const MATH_EXTENSIONS: TokenizerAndRendererExtension[] = [
+  {
+    name: 'blockMath',
+    level: 'block',
+    start: (src) => src.match(/\$\$|\\\[/)?.index,
+    tokenizer(src) {
+      const match = BLOCK_MATH.exec(src);
+      if (match) return { type: 'blockMath', raw: match[0], text: (match[1] ?? match[2]).trim() };
+    },
+    renderer: (token) => `<pre>${mathCode(token.text)}</pre>\n`,
+  },
+  {
+    name: 'inlineMath',
+    level: 'inline',
+    start: (src) => src.match(/\$|\\\(/)?.index,
+    tokenizer(src) {
+      const match = INLINE_MATH.exec(src);
+      if (match) return { type: 'inlineMath', raw: match[0], text: (match[1] ?? match[2]).trim() };
+    },
+    renderer: (token) => mathCode(token.text),
+  },
+];
+
+/**
+ * Typesets the math placeholders (and ```math fences) of sanitized Markdown as MathML.
+ * MathML needs no fonts or stylesheets and is rendered by the browser itself.
+ * Formulas KaTeX cannot parse stay as their source: inline as code, blocks as a LaTeX code block.
+ */
+export const typesetMath = (root: DocumentFragment) => {
+  root.querySelectorAll('code.language-math').forEach(code => {
+    const pre = code.parentElement?.tagName === 'PRE' ? code.parentElement : null;
+    try {
+      const html = katex.renderToString(code.textContent || '', {
+        displayMode: !!pre,
+        output: 'mathml',
+        throwOnError: true,
+      });
+      const wrapper = document.createElement(pre ? 'div' : 'span');
+      wrapper.className = pre ? 'math-block' : 'math-inline';
+      wrapper.innerHTML = html;
+      (pre || code).replaceWith(wrapper);
+    } catch (error: any) {
+      code.className = 'language-latex';
+      if (error?.message) code.setAttribute('title', error.message);
+    }
+  });
+};
@@ -0,0 +1,117 @@
+import { ChatSession, Message, SessionMeta } from "../types";
+import { withParts } from "./parts";
+
+// Kök seviyesindeki mesajların (parentId = null) seçili dalı bu anahtarla tutulur
+export const ROOT_KEY = '__root__';
+
+const keyOf = (parentId: string | null | undefined) => parentId ?? ROOT_KEY;
+
+/**
+ * Returns the direct children of a node in insertion order.
+ */
+export const getChildren = (messages: Message[], parentId: string | null): Message[] => {
+  return messages.filter(m => (m.parentId ?? null) === parentId);
+};
+
+/**
+ * Walks the tree from the root following the selected child of each node.
+ * Nodes without an explicit selection follow their newest child.
+ */
+export const getActivePath = (session: ChatSession): Message[] => {
+  const path: Message[] = [];
+  const activeChildren = session.activeChildren || {};
+  let parentId: string | null = null;
+
+  while (true) {
+    const children = getChildren(session.messages, parentId);
+    if (children.length === 0) break;
+    const selectedId: string | undefined = activeChildren[keyOf(parentId)];
+    const next: Message = children.find(c => c.id === selectedId) || children[children.length - 1];
+    path.push(next);
+    parentId = next.id;
+  }
+
+  return path;
+};
+
+/**
+ * Returns the path from the root down to (and including) the given message.
+ */
+export const getPathTo = (session: ChatSession, messageId: string): Message[] => {
+  const byId = new Map(session.messages.map(m => [m.id, m]));
+  const path: Message[] = [];
+  let current = byId.get(messageId);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Returns the variants of a message (itself and its siblings) and its position among them.
+ */
+export const getSiblings = (session: ChatSession, messageId: string): { siblings: Message[]; index: number } => {
+  const message = session.messages.find(m => m.id === messageId);
+  if (!message) return { siblings: [], index: -1 };
+  const siblings = getChildren(session.messages, message.parentId ?? null);
+  return { siblings, index: siblings.findIndex(s => s.id === messageId) };
+};
+
+/**
+ * Makes the given message the selected variant at every level from the root down to it.
+ */
+export const selectBranch = (session: ChatSession, messageId: string): ChatSession => {
+  const activeChildren = { ...(session.activeChildren || {}) };
+  getPathTo(session, messageId).forEach(m => {
+    activeChildren[keyOf(m.parentId)] = m.id;
+  });
+  return { ...session, activeChildren };
+};
+
+/**
+ * Adds a message to the tree (or replaces it if it already exists) and selects it.
+ */
+export const upsertMessage = (session: ChatSession, message: Message): ChatSession => {
+  const exists = session.messages.some(m => m.id === message.id);
+  const messages = exists
+    ? session.messages.map(m => (m.id === message.id ? message : m))
+    : [...session.messages, message];
+  return {
+    ...session,
+    messages,
+    activeChildren: { ...(session.activeChildren || {}), [keyOf(message.parentId)]: message.id },
+  };
+};
+
+/**
+ * Migrates a session saved by an older version: the flat message list (before branching)
+ * becomes a single chain and text-only messages get a text part.
+ */
+export const normalizeSession = (session: ChatSession): ChatSession => {
+  const messages = (session.messages || []).map(withParts);
+  if (messages.every(m => m.parentId !== undefined)) {
+    return { ...normalizeSessionMeta(session), messages, activeChildren: session.activeChildren || {} };
+  }
+
+  const activeChildren: Record<string, string> = {};
+  const chained = messages.map((m, i) => {
+    const parentId = i > 0 ? messages[i - 1].id : null;
+    activeChildren[keyOf(parentId)] = m.id;
+    return { ...m, parentId };
+  });
+  return { ...normalizeSessionMeta(session), messages: chained, activeChildren };
+};
+
+/**
+ * Fills the organization fields (pinned, archived, tags) that sessions saved before folders and tags lack.
+ */
+export const normalizeSessionMeta = <T extends SessionMeta>(session: T): T => ({
+  ...session,
+  pinned: !!session.pinned,
+  archived: !!session.archived,
+  tags: Array.isArray(session.tags) ? session.tags : [],
+});
+
+// Oturumun mesajsız kaydı (oturum deposu ve kenar çubuğu için)
+export const toSessionMeta = ({ messages, ...meta }: SessionMeta & { messages?: Message[] }): SessionMeta => meta;
@@ -0,0 +1,302 @@
+import { Attachment, FinishReason, GenerationRequest, ModelProvider, ProviderSettings, StreamEvent, TokenUsage, ToolStep } from "../types";
+import { isTextBased } from "./attachments";
+import { formatTextAttachment, getAttachmentBase64 } from "./attachmentStore";
+import { getHistoryMessages, getHistoryText } from "./history";
+import { MAX_TOOL_ROUNDS, runToolCall, toToolResponse, toolLimitError } from "./tools";
+import { addTokenUsage } from "./usage";
+import { fromHttpResponse, toProviderError } from "./errors";
+
+// OpenAI uyumlu sunucular (OpenAI, Ollama, llama.cpp, LM Studio, vLLM...) aynı /chat/completions API'sini konuşur.
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type ChatCompletionMessage =
+  | { role: 'system' | 'user' | 'assistant'; content: string | ContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls: StreamedToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const getBaseUrl = (settings: ProviderSettings) => {
+  return (settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+};
+
+const getHeaders = (settings: ProviderSettings): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Yerel sunucular genelde anahtar istemez
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+  return headers;
+};
+
+/**
+ * Converts a message's text and attachments to OpenAI content.
+ * Images go as data URLs, text files are inlined; other binaries (PDF, audio) are not
+ * supported by the chat completions format and are only mentioned by name.
+ */
+const toContent = async (text: string, attachments: Attachment[] = []): Promise<string | ContentPart[]> => {
+  if (attachments.length === 0) return text;
+
+  const parts: ContentPart[] = [];
+  for (const att of attachments) {
+    if (isTextBased(att.mimeType)) {
+      parts.push({ type: 'text', text: await formatTextAttachment(att) });
+    } else if (att.mimeType.startsWith('image/')) {
+      parts.push({ type: 'image_url', image_url: { url: `data:${att.mimeType};base64,${await getAttachmentBase64(att)}` } });
+    } else {
+      parts.push({ type: 'text', text: `\n[Attachment: ${att.name} (${att.mimeType}) is not supported by this model]\n` });
+    }
+  }
+  if (text) {
+    parts.push({ type: 'text', text });
+  }
+  return parts;
+};
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// completion_tokens akıl yürütmeyi de içerir; Gemini ile aynı anlamda olsun diye ayrılır
+const toTokenUsage = (usage: CompletionUsage): TokenUsage => {
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    candidateTokens: Math.max(0, (usage.completion_tokens || 0) - thinkingTokens),
+    thinkingTokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+    totalTokens: usage.total_tokens || 0,
+  };
+};
+
+interface StreamedToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface CompletionResult {
+  text: string;
+  toolCalls: StreamedToolCall[];
+  usage?: TokenUsage;
+  model?: string;
+  finishReason?: FinishReason;
+}
+
+// 'tool_calls' da normal bitiştir (araç sonuçlarıyla yeni tur başlar)
+const toFinishReason = (reason: string): FinishReason => {
+  switch (reason) {
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return 'stop';
+    case 'length':
+      return 'max-tokens';
+    case 'content_filter':
+      return 'safety';
+    default:
+      return 'other';
+  }
+};
+
+/**
+ * Posts one chat completion request and streams its events.
+ * Tool calls arrive in fragments (name first, then pieces of the JSON arguments) and are assembled by index.
+ */
+const streamCompletion = async function* (
+  settings: ProviderSettings,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEvent, CompletionResult, unknown> {
+  const response = await fetch(`${getBaseUrl(settings)}/chat/completions`, {
+    method: 'POST',
+    headers: getHeaders(settings),
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const text = await response.text().catch(() => '');
+    throw fromHttpResponse(response.status, response.statusText, text, response.headers.get('retry-after'));
+  }
+
+  const result: CompletionResult = { text: '', toolCalls: [] };
+
+  // SSE akışını satır satır oku: "data: {...}" ve en sonda "data: [DONE]"
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return result;
+
+      // Yerel sunucular arada JSON olmayan satırlar (keep-alive, yorum) gönderebilir
+      let json;
+      try {
+        json = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      if (json.usage) {
+        result.usage = toTokenUsage(json.usage);
+        result.model = json.model;
+      }
+      if (json.choices?.[0]?.finish_reason) {
+        result.finishReason = toFinishReason(json.choices[0].finish_reason);
+      }
+      const delta = json.choices?.[0]?.delta;
+      // Akıl yürüten modeller (DeepSeek, Ollama, vLLM) düşünceyi ayrı alanda gönderir
+      const reasoning = delta?.reasoning_content || delta?.reasoning;
+      if (reasoning) {
+        yield { type: 'thought', text: reasoning };
+      }
+      if (delta?.content) {
+        result.text += delta.content;
+        yield { type: 'text', text: delta.content };
+      }
+      for (const fragment of delta?.tool_calls || []) {
+        const index = fragment.index ?? result.toolCalls.length;
+        const call = result.toolCalls[index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        call.id = fragment.id || call.id;
+        call.function.name += fragment.function?.name || '';
+        call.function.arguments += fragment.function?.arguments || '';
+      }
+    }
+  }
+  return result;
+};
+
+const parseArguments = (json: string): Record<string, unknown> => {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Generates content from an OpenAI-compatible chat completions endpoint using server-sent events.
+ * @param request Prompt, attachments, history (excluding the current prompt), generation config,
+ * provider settings (base URL, model, optional API key), the persona's system instruction, an optional
+ * abort signal and optional tools. The thinking budget in the config is ignored here.
+ * Tool calls are run here and their results are sent back until a final answer arrives.
+ */
+const generateContentStream = async function* ({
+  prompt,
+  attachments,
+  history,
+  config,
+  settings,
+  systemInstruction,
+  signal,
+  tools,
+  toolContext
+}: GenerationRequest): AsyncGenerator<StreamEvent, void, unknown> {
+  try {
+    const messages: ChatCompletionMessage[] = [
+      { role: 'system', content: systemInstruction },
+      ...await Promise.all(getHistoryMessages(history)
+        .map(async (msg): Promise<ChatCompletionMessage> => ({
+          role: msg.role === 'user' ? 'user' : 'assistant',
+          content: await toContent(getHistoryText(msg), msg.attachments),
+        }))),
+      { role: 'user', content: await toContent(prompt || ' ', attachments) },
+    ];
+
+    const baseBody = {
+      model: settings.model || openAIProvider.defaultModel,
+      stream: true,
+      stream_options: { include_usage: true }, // Son parçada token kullanımı gelir
+      // Boş ayarlar JSON'a yazılmaz; top_k standart değil ama Ollama/llama.cpp/vLLM destekler
+      temperature: config.temperature,
+      top_p: config.topP,
+      top_k: config.topK,
+      max_tokens: config.maxOutputTokens,
+      stop: config.stopSequences?.length ? config.stopSequences : undefined,
+      seed: config.seed,
+      tools: tools?.length
+        ? tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+        : undefined,
+    };
+
+    let totalUsage: TokenUsage | undefined;
+    let model: string | undefined;
+    let finishReason: FinishReason | undefined;
+    let toolLimitReached = false;
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const result = yield* streamCompletion(settings, { ...baseBody, messages }, signal);
+      if (result.usage) totalUsage = addTokenUsage(totalUsage, result.usage);
+      model = result.model || model;
+      finishReason = result.finishReason;
+
+      if (result.toolCalls.length === 0 || !toolContext) break;
+      if (round === MAX_TOOL_ROUNDS) {
+        toolLimitReached = true;
+        break;
+      }
+
+      // Kimlik göndermeyen sunucular için üretilir; araç sonucu çağrıya bu kimlikle bağlanır
+      result.toolCalls.forEach((call, index) => { call.id ||= `call-${round}-${index}`; });
+      // Modelin çağrıları ve araç sonuçları bir sonraki turun geçmişine eklenir
+      messages.push({ role: 'assistant', content: result.text || null, tool_calls: result.toolCalls });
+      for (const call of result.toolCalls) {
+        const step: ToolStep = { id: call.id, name: call.function.name, args: parseArguments(call.function.arguments) };
+        yield { type: 'tool-call', step };
+        const finished = await runToolCall(step, toolContext);
+        yield { type: 'tool-result', step: finished };
+        messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(toToolResponse(finished)) });
+      }
+    }
+
+    if (finishReason && !toolLimitReached) {
+      yield { type: 'finish', reason: finishReason };
+    }
+    if (totalUsage) {
+      yield { type: 'usage', usage: totalUsage, model };
+    }
+    // Kullanım yine de kaydedilsin diye hata en sonda verilir
+    if (toolLimitReached) throw toolLimitError();
+
+  } catch (error: any) {
+    console.error("OpenAI-compatible API Error:", error);
+    throw toProviderError(error);
+  }
+};
+
+/**
+ * Lists the models the server exposes on GET /models (Ollama and llama.cpp support this too).
+ */
+const listModels = async (settings: ProviderSettings): Promise<string[]> => {
+  const response = await fetch(`${getBaseUrl(settings)}/models`, { headers: getHeaders(settings) });
+  if (!response.ok) {
+    throw new Error(`OpenAI-compatible API Error: ${response.status} ${response.statusText}`);
+  }
+  const json = await response.json();
+  return Array.isArray(json.data) ? json.data.map((m: { id: string }) => m.id) : [];
+};
+
+export const openAIProvider: ModelProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible (OpenAI, Ollama, llama.cpp)',
+  defaultModel: 'llama3.1',
+  generateContentStream,
+  listModels,
+};
@@ -0,0 +1,53 @@
+import { CodeOutcome, Message, MessagePart } from "../types";
+
+export const toTextParts = (text: string): MessagePart[] => (text ? [{ type: 'text', text }] : []);
+
+/**
+ * The ordered parts of a message. Messages saved before parts existed only have `text`.
+ */
+export const getMessageParts = (msg: Pick<Message, 'text' | 'parts'>): MessagePart[] => {
+  return msg.parts ?? toTextParts(msg.text);
+};
+
+// Akışta gelen metin son metin parçasına eklenir; araya görsel/kod girdiyse yeni parça açılır
+export const appendText = (parts: MessagePart[], text: string): MessagePart[] => {
+  const last = parts[parts.length - 1];
+  if (last?.type === 'text') {
+    return [...parts.slice(0, -1), { type: 'text', text: last.text + text }];
+  }
+  return [...parts, { type: 'text', text }];
+};
+
+export const getPartsText = (parts: MessagePart[]): string => {
+  return parts.map(part => (part.type === 'text' ? part.text : '')).join('');
+};
+
+export const hasRichParts = (parts: MessagePart[]): boolean => parts.some(part => part.type !== 'text');
+
+export const OUTCOME_LABELS: Record<CodeOutcome, string> = { ok: 'Output', failed: 'Error', timeout: 'Timed out' };
+
+/**
+ * Renders parts as Markdown. Used for the history sent back to the model (so it still
+ * sees the code it ran and its output) and for Markdown export. Binary data is replaced by a note.
+ */
+export const partsToMarkdown = (parts: MessagePart[]): string => {
+  return parts.map(part => {
+    switch (part.type) {
+      case 'text':
+        return part.text;
+      case 'code':
+        return `\n\n\`\`\`${part.language}\n${part.code}\n\`\`\`\n\n`;
+      case 'code-result':
+        return `\n\n${OUTCOME_LABELS[part.outcome]}:\n\`\`\`\n${part.output}\n\`\`\`\n\n`;
+      case 'image':
+        return `\n\n[Image (${part.mimeType})]\n\n`;
+      case 'file':
+        return `\n\n[File (${part.mimeType})${part.uri ? `: ${part.uri}` : ''}]\n\n`;
+    }
+  }).join('').trim();
+};
+
+// Migrasyon: parçası olmayan eski mesajlar tek metin parçasına çevrilir
+export const withParts = (msg: Message): Message => {
+  return msg.parts ? msg : { ...msg, parts: toTextParts(msg.text) };
+};
@@ -0,0 +1,109 @@
+import { AppSettings, ChatSession, ContextSettings, GeminiConfig, GenerationRequest, ModelProvider, ProviderId, ProviderSettings, StreamEvent, UsageListener } from "../types";
+import { getRetryDelay, isRetryable, toProviderError } from "./errors";
+import { geminiProvider } from "./gemini";
+import { openAIProvider } from "./openai";
+import { DEFAULT_BUDGET, DEFAULT_PRICES } from "./usage";
+
+export const PROVIDERS: Record<ProviderId, ModelProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+};
+
+export const DEFAULT_GENERATION_CONFIG: GeminiConfig = {
+  thinkingBudget: 0,
+};
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  limit: 128000,
+  policy: 'truncate',
+};
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  providerSettings: DEFAULT_PROVIDER_SETTINGS,
+  generationConfig: DEFAULT_GENERATION_CONFIG,
+  context: DEFAULT_CONTEXT_SETTINGS,
+  prices: DEFAULT_PRICES,
+  budget: DEFAULT_BUDGET,
+  codeBlocks: { lineNumbers: false, wrap: false },
+};
+
+// Bilinmeyen (eski/bozuk) kayıtlar için Gemini'ye düş
+export const getProvider = (id: ProviderId): ModelProvider => {
+  return PROVIDERS[id] || geminiProvider;
+};
+
+/**
+ * Combines the global defaults with a session's own overrides.
+ */
+export const resolveGenerationConfig = (defaults: GeminiConfig, session?: ChatSession): GeminiConfig => {
+  return { ...defaults, ...session?.generationConfig };
+};
+
+/**
+ * Applies a settings change; keys set to undefined are removed so they fall back
+ * to the global default (for overrides) or to the provider's default.
+ */
+export const applyConfigPatch = <T extends Partial<GeminiConfig>>(config: T, patch: Partial<GeminiConfig>): T => {
+  const next: Partial<GeminiConfig> = { ...config, ...patch };
+  (Object.keys(patch) as (keyof GeminiConfig)[]).forEach(key => {
+    if (patch[key] === undefined) delete next[key];
+  });
+  return next as T;
+};
+
+export const MAX_RETRIES = 3;
+
+// Bekleme durdurulursa hemen biter; akışın kendisi de aynı sinyalle durur
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Streams a request through its provider and retries transient failures (rate limit, network,
+ * overload) with exponential backoff. Only failures before the first event are retried,
+ * so an answer is never duplicated; later failures and the rest are thrown as ProviderError.
+ */
+export async function* streamWithRetry(request: GenerationRequest): AsyncGenerator<StreamEvent, void, unknown> {
+  const provider = getProvider(request.settings.provider);
+  for (let attempt = 0; ; attempt++) {
+    let hasOutput = false;
+    try {
+      for await (const event of provider.generateContentStream(request)) {
+        hasOutput = true;
+        yield event;
+      }
+      return;
+    } catch (error) {
+      const providerError = toProviderError(error);
+      if (hasOutput || request.signal?.aborted || attempt >= MAX_RETRIES || !isRetryable(providerError)) {
+        throw providerError;
+      }
+      const delayMs = getRetryDelay(attempt, providerError);
+      yield { type: 'retry', attempt: attempt + 1, maxAttempts: MAX_RETRIES, delayMs, kind: providerError.kind };
+      await sleep(delayMs, request.signal);
+      if (request.signal?.aborted) return;
+    }
+  }
+}
+
+/**
+ * Runs a request to completion and returns the answer text without thoughts
+ * (for background tasks like titles and summaries). The token usage goes to `onUsage`.
+ */
+export const generateText = async (request: GenerationRequest, onUsage?: UsageListener): Promise<string> => {
+  let text = '';
+  for await (const event of streamWithRetry(request)) {
+    if (event.type === 'text') text += event.text;
+    else if (event.type === 'usage') onUsage?.(event.usage, event.model);
+  }
+  return text.trim();
+};
@@ -0,0 +1,58 @@
+import { FinishReason, Message, SafetyCategory, SafetyRating, SafetyThreshold } from "../types";
+
+export const SAFETY_CATEGORIES: { id: SafetyCategory; label: string }[] = [
+  { id: 'harassment', label: 'Harassment' },
+  { id: 'hate-speech', label: 'Hate speech' },
+  { id: 'sexually-explicit', label: 'Sexually explicit' },
+  { id: 'dangerous-content', label: 'Dangerous content' },
+];
+
+export const SAFETY_THRESHOLDS: { id: SafetyThreshold; label: string }[] = [
+  { id: 'block-low-and-above', label: 'Block low and above' },
+  { id: 'block-medium-and-above', label: 'Block medium and above' },
+  { id: 'block-only-high', label: 'Block only high' },
+  { id: 'block-none', label: 'Block none' },
+  { id: 'off', label: 'Off' },
+];
+
+// 'hate-speech' -> 'hate speech'; listede olmayan kategoriler de okunur kalır
+const categoryLabel = (category: string): string => {
+  return SAFETY_CATEGORIES.find(c => c.id === category)?.label.toLowerCase() || category.replace(/-/g, ' ');
+};
+
+/**
+ * Categories that caused a block: the ones the provider flagged, otherwise those rated medium or high.
+ */
+const getBlockingCategories = (ratings: SafetyRating[] = []): string[] => {
+  const flagged = ratings.filter(r => r.blocked);
+  const relevant = flagged.length > 0 ? flagged : ratings.filter(r => r.probability === 'medium' || r.probability === 'high');
+  return relevant.map(r => categoryLabel(r.category));
+};
+
+const FINISH_LABELS: Record<Exclude<FinishReason, 'stop'>, string> = {
+  'max-tokens': 'Truncated: max tokens',
+  safety: 'Blocked: safety',
+  recitation: 'Blocked: recitation',
+  prohibited: 'Blocked: prohibited content',
+  other: 'Ended early',
+};
+
+/**
+ * Badge for an answer that did not finish normally, e.g. "Blocked: safety (harassment)".
+ * Returns undefined for normal (or unknown) endings.
+ */
+export const getFinishBadge = (message: Message): { label: string; title: string; isBlock: boolean } | undefined => {
+  const reason = message.finishReason;
+  if (!reason || reason === 'stop') return undefined;
+  const categories = reason === 'safety' ? getBlockingCategories(message.safetyRatings) : [];
+  const ratings = (message.safetyRatings || [])
+    .filter(r => r.probability !== 'negligible')
+    .map(r => `${categoryLabel(r.category)}: ${r.probability}${r.blocked ? ' (blocked)' : ''}`);
+  return {
+    label: categories.length > 0 ? `${FINISH_LABELS[reason]} (${categories.join(', ')})` : FINISH_LABELS[reason],
+    title: reason === 'max-tokens'
+      ? 'The answer reached the max output tokens limit'
+      : ratings.length > 0 ? ratings.join('\n') : 'The provider stopped the answer',
+    isBlock: reason !== 'max-tokens' && reason !== 'other',
+  };
+};
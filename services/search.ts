@@ -0,0 +1,127 @@
+import { ChatSession, Message, SearchDoc } from "../types";
+import { isTextBased } from "./attachments";
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Lowercases and strips diacritics character by character (İ/ı -> i, ş -> s, ü -> u ...).
+ * The result has the same length as the input so match positions map back to the original text.
+ */
+export const normalizeForSearch = (text: string): string => {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const folded = ch === 'ı' ? 'i' : ch.toLowerCase().normalize('NFD').replace(COMBINING_MARKS, '');
+    result += folded.length === 1 ? folded : (ch.toLowerCase().length === 1 ? ch.toLowerCase() : ch);
+  }
+  return result;
+};
+
+/**
+ * Splits text into unique normalized words for the search index.
+ */
+export const tokenize = (text: string): string[] => {
+  const words = normalizeForSearch(text).split(/[^\p{L}\p{N}]+/u).filter(w => w.length >= 2);
+  return Array.from(new Set(words));
+};
+
+export const buildTitleDoc = (session: Pick<ChatSession, 'id' | 'title'>): SearchDoc => ({
+  id: `${session.id}:title`,
+  sessionId: session.id,
+  kind: 'title',
+  text: session.title,
+  terms: tokenize(session.title),
+});
+
+/**
+ * Index documents of a single message: its text and the names of its text-based attachments.
+ */
+export const buildMessageDocs = (sessionId: string, msg: Message): SearchDoc[] => {
+  if (msg.isError) return [];
+  const docs: SearchDoc[] = [];
+  if (msg.text) {
+    docs.push({
+      id: `${sessionId}:message:${msg.id}`,
+      sessionId,
+      messageId: msg.id,
+      kind: 'message',
+      text: msg.text,
+      terms: tokenize(msg.text),
+    });
+  }
+  (msg.attachments || []).forEach((att, i) => {
+    if (!isTextBased(att.mimeType)) return;
+    docs.push({
+      id: `${sessionId}:attachment:${msg.id}:${i}`,
+      sessionId,
+      messageId: msg.id,
+      kind: 'attachment',
+      text: att.name,
+      terms: tokenize(att.name),
+    });
+  });
+  return docs;
+};
+
+/**
+ * Builds the index documents for a session: its title, every message (all branches)
+ * and the names of its text-based attachments.
+ */
+export const buildSearchDocs = (session: ChatSession): SearchDoc[] => {
+  return [buildTitleDoc(session), ...session.messages.flatMap(msg => buildMessageDocs(session.id, msg))];
+};
+
+/**
+ * Checks that every query word is a prefix of some word in the document.
+ */
+export const matchesQuery = (doc: SearchDoc, queryTerms: string[]): boolean => {
+  return queryTerms.every(q => doc.terms.some(t => t.startsWith(q)));
+};
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Cuts a short snippet around the first match and marks every query word inside it.
+ */
+export const getSnippet = (text: string, query: string, radius = 60): SnippetSegment[] => {
+  const normalizedText = normalizeForSearch(text);
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [{ text: text.slice(0, radius * 2), highlight: false }];
+
+  const firstMatch = Math.min(...queryTerms.map(q => {
+    const idx = normalizedText.indexOf(q);
+    return idx === -1 ? Infinity : idx;
+  }));
+  const center = Number.isFinite(firstMatch) ? firstMatch : 0;
+  const start = Math.max(0, center - radius);
+  const end = Math.min(text.length, center + radius);
+
+  // Eşleşen aralıkları bul ve birleştir
+  const ranges: [number, number][] = [];
+  queryTerms.forEach(q => {
+    let idx = normalizedText.indexOf(q, start);
+    while (idx !== -1 && idx < end) {
+      ranges.push([idx, Math.min(idx + q.length, end)]);
+      idx = normalizedText.indexOf(q, idx + q.length);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+  ranges.forEach(([from, to]) => {
+    if (to <= cursor) return;
+    from = Math.max(from, cursor);
+    if (from > cursor) segments.push({ text: text.slice(cursor, from), highlight: false });
+    segments.push({ text: text.slice(from, to), highlight: true });
+    cursor = to;
+  });
+  if (cursor < end) segments.push({ text: text.slice(cursor, end), highlight: false });
+
+  if (start > 0) segments.unshift({ text: '…', highlight: false });
+  if (end < text.length) segments.push({ text: '…', highlight: false });
+  return segments;
+};
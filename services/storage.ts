@@ -1,15 +1,84 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { ChatSession } from "../types";
+import { openDB, DBSchema, IDBPDatabase, IDBPObjectStore, StoreKey, StoreNames, StoreValue } from 'idb';
+import {
+  AppSettings, AttachmentBlob, AttachmentRecord, ChatSession, Folder, FolderRecord, Message, MessageRecord,
+  Persona, PersonaRecord, SearchRecord, SearchResult, SessionMeta, SessionRecord, SettingsRecord, StoredMessage,
+  UsageEntry, UsageRecord, VaultConfig, VaultState
+} from "../types";
+import { externalizeAttachments } from "./attachments";
+import {
+  PBKDF2_ITERATIONS, createRawDataKey, deriveWrappingKey, importDataKey, randomBytes, unwrapDataKey, wrapDataKey
+} from "./crypto";
+import { normalizeSession, normalizeSessionMeta, toSessionMeta } from "./messageTree";
+import { buildMessageDocs, buildSearchDocs, buildTitleDoc, matchesQuery, tokenize } from "./search";
+import { DEFAULT_PERSONAS } from "./systemPrompt";
+import { DEFAULT_APP_SETTINGS } from "./providers";
+import { TAB_ID, broadcastChange, isStreamingElsewhere } from "./tabSync";
+import {
+  WrongPassphraseError, addVaultKeys, attachmentIds, getVaultConfig, getVaultState, hashSearchTerm, isSealed,
+  keepVaultKeys, needsReseal, openAttachment, openFolder, openMessage, openPersona, openSearchDoc, openSessionMeta,
+  openSettings, openUsageEntry, resealAttachment, sealAttachment, sealFolder, sealMessage, sealPersona,
+  sealSearchDoc, sealSessionMeta, sealSettings, sealUsageEntry, setVaultConfig
+} from "./vault";
 
 const DB_NAME = 'GeminiAppDB';
+// Eski tip: oturum tüm mesajlarıyla tek kayıtta (v10 öncesi); açılışta yeni depolara taşınır
 const STORE_NAME = 'chat_sessions';
-const DB_VERSION = 2;
+const SESSION_STORE = 'session_meta';
+const MESSAGE_STORE = 'messages';
+const SEARCH_STORE = 'search_index';
+const PERSONA_STORE = 'personas';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'defaults';
+const USAGE_STORE = 'usage_log';
+const ATTACHMENT_STORE = 'attachments';
+const FOLDER_STORE = 'folders';
+const VAULT_STORE = 'vault';
+const VAULT_KEY = 'config';
+const DB_VERSION = 12;
 
 interface GeminiDB extends DBSchema {
   chat_sessions: {
     key: string;
     value: ChatSession;
   };
+  session_meta: {
+    key: string;
+    value: SessionRecord;
+  };
+  messages: {
+    key: [string, number];
+    value: MessageRecord;
+  };
+  search_index: {
+    key: string;
+    value: SearchRecord;
+    indexes: { by_session: string; by_term: string };
+  };
+  personas: {
+    key: string;
+    value: PersonaRecord;
+  };
+  settings: {
+    key: string;
+    value: SettingsRecord;
+  };
+  usage_log: {
+    key: string;
+    value: UsageRecord;
+    indexes: { by_time: number };
+  };
+  attachments: {
+    key: string;
+    value: AttachmentRecord;
+  };
+  folders: {
+    key: string;
+    value: FolderRecord;
+  };
+  vault: {
+    key: string;
+    value: VaultConfig;
+  };
   sessions: { key: string; value: ChatSession[]; }; // Migration için eski tip
 }
 
@@ -22,17 +91,91 @@ const initDB = () => {
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         }
+        // Kenar çubuğu sadece oturum kayıtlarını okur; mesajlar sohbet açılınca (oturum, sıra) aralığıyla yüklenir
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MESSAGE_STORE)) {
+          db.createObjectStore(MESSAGE_STORE, { keyPath: ['sessionId', 'order'] });
+        }
+        if (!db.objectStoreNames.contains(SEARCH_STORE)) {
+          const searchStore = db.createObjectStore(SEARCH_STORE, { keyPath: 'id' });
+          searchStore.createIndex('by_session', 'sessionId');
+          searchStore.createIndex('by_term', 'terms', { multiEntry: true });
+        }
+        // Persona kütüphanesi yerleşik personalarla başlar
+        if (!db.objectStoreNames.contains(PERSONA_STORE)) {
+          const personaStore = db.createObjectStore(PERSONA_STORE, { keyPath: 'id' });
+          DEFAULT_PERSONAS.forEach((persona) => personaStore.put(persona));
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+        // Harcama kaydı oturumlardan bağımsızdır (sohbet silinse de günlük toplam değişmez)
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          const usageStore = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+          usageStore.createIndex('by_time', 'timestamp');
+        }
+        // Ek içerikleri oturumlardan ayrı, içerik özetiyle saklanır (aynı dosya tek kopya)
+        if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) {
+          db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(FOLDER_STORE)) {
+          db.createObjectStore(FOLDER_STORE, { keyPath: 'id' });
+        }
+        // Şifreleme yapılandırması: tuz, sarılmış veri anahtarları (kayıt yoksa şifreleme kapalı)
+        if (!db.objectStoreNames.contains(VAULT_STORE)) {
+          db.createObjectStore(VAULT_STORE);
+        }
+        const indexSession = (session: ChatSession) => {
+          const searchStore = transaction.objectStore(SEARCH_STORE);
+          buildSearchDocs(session).forEach((doc) => searchStore.put(doc));
+        };
         // Migration: Eski veriyi kurtarma
         if (oldVersion < 2 && db.objectStoreNames.contains('sessions')) {
           const oldStore = transaction.objectStore('sessions');
           oldStore.get('all_sessions').then((oldData) => {
             if (Array.isArray(oldData)) {
               const newStore = transaction.objectStore(STORE_NAME);
-              oldData.forEach((session) => newStore.put(session));
+              oldData.forEach((session) => {
+                newStore.put(normalizeSession(session));
+                indexSession(session);
+              });
             }
           });
         }
+        // Migration: Düz mesaj listelerini ağaç yapısına çevir (dallanma/varyantlar için)
+        if (oldVersion >= 2 && oldVersion < 3) {
+          const store = transaction.objectStore(STORE_NAME);
+          store.getAll().then((sessions) => {
+            sessions.forEach((session) => store.put(normalizeSession(session)));
+          });
+        }
+        // Migration: Düz metin mesajlarını sıralı parçalara çevir (görsel/kod parçaları için)
+        if (oldVersion >= 3 && oldVersion < 8) {
+          const store = transaction.objectStore(STORE_NAME);
+          store.getAll().then((sessions) => {
+            sessions.forEach((session) => store.put(normalizeSession(session)));
+          });
+        }
+        // Migration: Mevcut oturumlar için arama indeksini oluştur
+        if (oldVersion >= 2 && oldVersion < 4) {
+          transaction.objectStore(STORE_NAME).getAll().then((sessions) => {
+            sessions.forEach(indexSession);
+          });
+        }
+        // Migration: Oturum kayıtlarına sabitleme, arşiv ve etiket alanları (v10 öncesi kayıtlar taşınırken normalize edilir)
+        if (oldVersion >= 10 && oldVersion < 11) {
+          const store = transaction.objectStore(SESSION_STORE);
+          store.getAll().then((sessions) => {
+            sessions.forEach((session) => store.put(normalizeSessionMeta(session as SessionMeta)));
+          });
+        }
       },
+    }).then(async (db) => {
+      // Kayıtların şifreli yazılıp yazılmayacağı buna bağlı; her işlemden önce bilinmeli
+      setVaultConfig(await db.get(VAULT_STORE, VAULT_KEY));
+      return db;
     });
   }
   return dbPromise;
@@ -40,10 +183,112 @@ const initDB = () => {
 
 // --- GÜVENLİ METODLAR ---
 
-export const loadSessionsFromDB = async (): Promise<ChatSession[]> => {
+/**
+ * Thrown when a write is based on an older version of a session than the one another tab has stored.
+ * The caller should read the latest version and apply its change on top of it.
+ */
+export class StaleWriteError extends Error {
+  sessionId: string;
+
+  constructor(sessionId: string) {
+    super('This chat was changed in another tab.');
+    this.name = 'StaleWriteError';
+    this.sessionId = sessionId;
+  }
+}
+
+type SessionMetaStore = IDBPObjectStore<GeminiDB, ArrayLike<StoreNames<GeminiDB>>, 'session_meta', 'readwrite'>;
+
+/**
+ * Version check for a session write, done inside the write transaction: the stored record must not be newer
+ * than the version the tab last read, unless this tab wrote it. Returns the record to write (already encrypted
+ * if encryption is on, because a transaction cannot wait for Web Crypto) with the next revision.
+ * @throws StaleWriteError
+ */
+const nextRevision = async (store: SessionMetaStore, session: SessionMeta, record: SessionRecord): Promise<SessionRecord> => {
+  const stored = await store.get(session.id);
+  if (stored && stored.writtenBy !== TAB_ID && (stored.revision || 0) > (session.revision || 0)) {
+    throw new StaleWriteError(session.id);
+  }
+  return { ...record, revision: (stored?.revision || 0) + 1, writtenBy: TAB_ID };
+};
+
+// Oturumun bütün mesaj kayıtları: [id, -∞] .. [id, +∞]
+const messageRange = (sessionId: string) => IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity]);
+
+const toStoredMessage = (sessionId: string, msg: Message, order: number): StoredMessage => ({ ...msg, sessionId, order });
+
+/**
+ * Migration: before v10 a session was one record with all its messages, rewritten on every change.
+ * The records are split into the session and message stores on the first load (search docs keep their ids).
+ */
+const migrateLegacySessions = async (db: IDBPDatabase<GeminiDB>) => {
+  const legacy = await db.getAll(STORE_NAME);
+  if (legacy.length === 0) return;
+  const normalized = legacy.map(normalizeSession);
+  const metas = await Promise.all(normalized.map((session) => sealSessionMeta(toSessionMeta(session))));
+  const messages = await Promise.all(normalized.flatMap((session) =>
+    session.messages.map((msg, order) => sealMessage(toStoredMessage(session.id, msg, order)))
+  ));
+  const tx = db.transaction([STORE_NAME, SESSION_STORE, MESSAGE_STORE], 'readwrite');
+  await Promise.all([
+    ...metas.map((meta) => tx.objectStore(SESSION_STORE).put(meta)),
+    ...messages.map((msg) => tx.objectStore(MESSAGE_STORE).put(msg)),
+    tx.objectStore(STORE_NAME).clear(),
+    tx.done,
+  ]);
+};
+
+/**
+ * Migration: sessions saved before the attachment store keep base64 data inside their messages.
+ * Hashing is async, which an upgrade transaction cannot wait for, so this runs when a session is loaded.
+ */
+const migrateInlineAttachments = async (db: IDBPDatabase<GeminiDB>, session: ChatSession): Promise<ChatSession> => {
+  const { session: migrated, records } = await externalizeAttachments(session);
+  if (records.length === 0) return session;
+  const blobs = await Promise.all(records.map(sealAttachment));
+  const messages = await Promise.all(migrated.messages.map((msg, order) => sealMessage(toStoredMessage(session.id, msg, order))));
+  const tx = db.transaction([MESSAGE_STORE, ATTACHMENT_STORE], 'readwrite');
+  await Promise.all([
+    ...blobs.map((blob) => tx.objectStore(ATTACHMENT_STORE).put(blob)),
+    ...messages.map((msg) => tx.objectStore(MESSAGE_STORE).put(msg)),
+    tx.done,
+  ]);
+  return migrated;
+};
+
+/**
+ * An answer that was still streaming when the tab closed keeps its last checkpoint.
+ * It is marked as interrupted (so it can be continued) and the marker on the session is cleared.
+ */
+const recoverInterruptedAnswer = async (db: IDBPDatabase<GeminiDB>, session: SessionRecord): Promise<SessionRecord> => {
+  const recovered: SessionRecord = { ...session, streamingMessageId: undefined, revision: (session.revision || 0) + 1, writtenBy: TAB_ID };
+  // Mesaj şifreli olabilir; çözme ve yeniden şifreleme transaction dışında yapılır
+  const target = (await db.getAll(MESSAGE_STORE, messageRange(session.id))).find((msg) => msg.id === session.streamingMessageId);
+  const interrupted = target && await sealMessage({ ...(await openMessage(target)), isInterrupted: true });
+  const tx = db.transaction([SESSION_STORE, MESSAGE_STORE], 'readwrite');
+  await Promise.all([
+    ...(interrupted ? [tx.objectStore(MESSAGE_STORE).put(interrupted)] : []),
+    tx.objectStore(SESSION_STORE).put(recovered),
+    tx.done,
+  ]);
+  broadcastChange({ type: 'session-changed', sessionId: session.id });
+  return recovered;
+};
+
+/**
+ * Loads the session records without their messages (for the sidebar), newest first.
+ * Answers interrupted by a closed tab or a crash are recovered on the way; answers still streaming in another tab are not.
+ */
+export const loadSessionIndex = async (): Promise<SessionMeta[]> => {
   try {
     const db = await initDB();
-    const sessions = await db.getAll(STORE_NAME);
+    await migrateLegacySessions(db);
+    const sessions: SessionMeta[] = [];
+    for (const session of await db.getAll(SESSION_STORE)) {
+      const isInterrupted = session.streamingMessageId && !(await isStreamingElsewhere(session.id));
+      sessions.push(await openSessionMeta(isInterrupted ? await recoverInterruptedAnswer(db, session) : session));
+    }
     return sessions.sort((a, b) => b.createdAt - a.createdAt);
   } catch (error) {
     console.error("Yükleme hatası:", error);
@@ -51,14 +296,516 @@ export const loadSessionsFromDB = async (): Promise<ChatSession[]> => {
   }
 };
 
-// TEKİL KAYDETME (Güvenli)
+// Tek oturum kaydı (başka sekmedeki değişiklikten sonra kenar çubuğunu yenilemek için)
+export const loadSessionMeta = async (id: string): Promise<SessionMeta | undefined> => {
+  const db = await initDB();
+  const record = await db.get(SESSION_STORE, id);
+  return record && openSessionMeta(record);
+};
+
+/**
+ * Loads a session with all its messages (in the order they were added).
+ */
+export const loadSessionFromDB = async (id: string): Promise<ChatSession | undefined> => {
+  const db = await initDB();
+  const record = await db.get(SESSION_STORE, id);
+  if (!record) return undefined;
+  const meta = await openSessionMeta(record);
+  const records = await Promise.all((await db.getAll(MESSAGE_STORE, messageRange(id))).map(openMessage));
+  const messages: Message[] = records.map(({ sessionId, order, ...msg }) => msg);
+  return normalizeSession(await migrateInlineAttachments(db, { ...meta, messages }));
+};
+
+type SearchStore = IDBPObjectStore<GeminiDB, ArrayLike<StoreNames<GeminiDB>>, 'search_index', 'readwrite'>;
+
+// Oturumun eski indeks belgelerini silip yenilerini yazar (aynı transaction içinde)
+const replaceSearchDocs = async (store: SearchStore, sessionId: string, docs: SearchRecord[]) => {
+  const oldKeys = await store.index('by_session').getAllKeys(sessionId);
+  await Promise.all([
+    ...oldKeys.map((key) => store.delete(key)),
+    ...docs.map((doc) => store.put(doc)),
+  ]);
+};
+
+// Mesajın eski belgeleri önce silinir: metni değişmiş ya da artık hata mesajı olabilir
+const replaceMessageDocs = async (store: SearchStore, sessionId: string, msg: Message, docs: SearchRecord[]) => {
+  const attachmentPrefix = `${sessionId}:attachment:${msg.id}:`;
+  await Promise.all([
+    store.delete(`${sessionId}:message:${msg.id}`),
+    store.delete(IDBKeyRange.bound(attachmentPrefix, attachmentPrefix + '\uffff')),
+    ...docs.map((doc) => store.put(doc)),
+  ]);
+};
+
+// Sadece oturum kaydı (başlık, ayarlar, seçili dallar) yazılır; mesajlara dokunulmaz
+export const saveSessionMeta = async (session: SessionMeta): Promise<void> => {
+  const db = await initDB();
+  const [record, titleDoc] = await Promise.all([sealSessionMeta(toSessionMeta(session)), sealSearchDoc(buildTitleDoc(session))]);
+  const tx = db.transaction([SESSION_STORE, SEARCH_STORE], 'readwrite');
+  // Sürüm tutmazsa hiçbir şey yazılmadan transaction kendiliğinden kapanır
+  const meta = await nextRevision(tx.objectStore(SESSION_STORE), session, record);
+  await Promise.all([
+    tx.objectStore(SESSION_STORE).put(meta),
+    tx.objectStore(SEARCH_STORE).put(titleDoc),
+    tx.done,
+  ]);
+  broadcastChange({ type: 'session-changed', sessionId: session.id });
+};
+
+/**
+ * Writes the given (new or changed) messages of a session together with its session record.
+ * A message is stored under its position in `session.messages`, which does not change once added.
+ */
+export const saveSessionMessages = async (session: ChatSession, messages: Message[]): Promise<void> => {
+  const stored = messages.map((msg) => {
+    const order = session.messages.findIndex((m) => m.id === msg.id);
+    if (order === -1) throw new Error(`Message ${msg.id} is not part of session ${session.id}.`);
+    return toStoredMessage(session.id, msg, order);
+  });
+  const db = await initDB();
+  const [record, titleDoc, records, messageDocs] = await Promise.all([
+    sealSessionMeta(toSessionMeta(session)),
+    sealSearchDoc(buildTitleDoc(session)),
+    Promise.all(stored.map(sealMessage)),
+    Promise.all(messages.map((msg) => Promise.all(buildMessageDocs(session.id, msg).map(sealSearchDoc)))),
+  ]);
+  const tx = db.transaction([SESSION_STORE, MESSAGE_STORE, SEARCH_STORE], 'readwrite');
+  const searchStore = tx.objectStore(SEARCH_STORE);
+  const meta = await nextRevision(tx.objectStore(SESSION_STORE), session, record);
+  await Promise.all([
+    tx.objectStore(SESSION_STORE).put(meta),
+    searchStore.put(titleDoc),
+    ...records.map((msg) => tx.objectStore(MESSAGE_STORE).put(msg)),
+    ...messages.map((msg, i) => replaceMessageDocs(searchStore, session.id, msg, messageDocs[i])),
+    tx.done,
+  ]);
+  broadcastChange({ type: 'session-changed', sessionId: session.id });
+};
+
+// TAM KAYDETME (içe aktarma, birleştirme) - eski mesaj kayıtları ve indeks aynı transaction'da yenilenir
 export const saveSessionToDB = async (session: ChatSession): Promise<void> => {
   const db = await initDB();
-  await db.put(STORE_NAME, session);
+  const [record, records, docs] = await Promise.all([
+    sealSessionMeta(toSessionMeta(session)),
+    Promise.all(session.messages.map((msg, order) => sealMessage(toStoredMessage(session.id, msg, order)))),
+    Promise.all(buildSearchDocs(session).map(sealSearchDoc)),
+  ]);
+  const tx = db.transaction([SESSION_STORE, MESSAGE_STORE, SEARCH_STORE], 'readwrite');
+  const messageStore = tx.objectStore(MESSAGE_STORE);
+  const meta = await nextRevision(tx.objectStore(SESSION_STORE), session, record);
+  await Promise.all([
+    tx.objectStore(SESSION_STORE).put(meta),
+    messageStore.delete(messageRange(session.id)),
+    ...records.map((msg) => messageStore.put(msg)),
+    replaceSearchDocs(tx.objectStore(SEARCH_STORE), session.id, docs),
+    tx.done,
+  ]);
+  broadcastChange({ type: 'session-changed', sessionId: session.id });
 };
 
 // TEKİL SİLME
 export const deleteSessionFromDB = async (id: string): Promise<void> => {
   const db = await initDB();
-  await db.delete(STORE_NAME, id);
-};
\ No newline at end of file
+  const tx = db.transaction([SESSION_STORE, MESSAGE_STORE, SEARCH_STORE], 'readwrite');
+  await Promise.all([
+    tx.objectStore(SESSION_STORE).delete(id),
+    tx.objectStore(MESSAGE_STORE).delete(messageRange(id)),
+    replaceSearchDocs(tx.objectStore(SEARCH_STORE), id, []),
+    tx.done,
+  ]);
+  broadcastChange({ type: 'session-deleted', sessionId: id });
+};
+
+// TAM METİN ARAMA - tüm oturumları taramak yerine kelime indeksini kullanır
+export const searchSessions = async (query: string, limit = 50): Promise<SearchResult[]> => {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [];
+
+  try {
+    const db = await initDB();
+    // En uzun kelime en seçici olandır; adayları sadece onunla (önek aralığı) çek
+    const seed = queryTerms.reduce((a, b) => (b.length > a.length ? b : a));
+    // Şifreli indekste önekler hashlenmiştir; aralık yerine tam eşleşme aranır
+    const hashedSeeds = await hashSearchTerm(seed);
+    const records = hashedSeeds
+      ? (await Promise.all(hashedSeeds.map((term) => db.getAllFromIndex(SEARCH_STORE, 'by_term', term)))).flat()
+      : await db.getAllFromIndex(SEARCH_STORE, 'by_term', IDBKeyRange.bound(seed, seed + '\uffff'));
+    const candidates = await Promise.all(records.map(openSearchDoc));
+
+    const seen = new Set<string>();
+    const matches = candidates.filter((doc) => {
+      if (seen.has(doc.id)) return false;
+      seen.add(doc.id);
+      return matchesQuery(doc, queryTerms);
+    });
+
+    // Başlık eşleşmeleri önce gelsin
+    matches.sort((a, b) => Number(b.kind === 'title') - Number(a.kind === 'title'));
+    const limited = matches.slice(0, limit);
+
+    const titles = new Map<string, string>();
+    for (const sessionId of new Set(limited.map((doc) => doc.sessionId))) {
+      const titleDoc = await db.get(SEARCH_STORE, `${sessionId}:title`);
+      titles.set(sessionId, (titleDoc && (await openSearchDoc(titleDoc)).text) || 'Chat');
+    }
+
+    return limited.map((doc) => ({
+      sessionId: doc.sessionId,
+      sessionTitle: titles.get(doc.sessionId) || 'Chat',
+      messageId: doc.messageId,
+      kind: doc.kind,
+      text: doc.text,
+    }));
+  } catch (error) {
+    console.error("Arama hatası:", error);
+    return [];
+  }
+};
+
+// --- PERSONA KÜTÜPHANESİ ---
+
+export const loadPersonasFromDB = async (): Promise<Persona[]> => {
+  try {
+    const db = await initDB();
+    const personas = await Promise.all((await db.getAll(PERSONA_STORE)).map(openPersona));
+    return personas.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error("Persona yükleme hatası:", error);
+    return DEFAULT_PERSONAS;
+  }
+};
+
+export const savePersonaToDB = async (persona: Persona): Promise<void> => {
+  const db = await initDB();
+  await db.put(PERSONA_STORE, await sealPersona(persona));
+};
+
+export const deletePersonaFromDB = async (id: string): Promise<void> => {
+  const db = await initDB();
+  await db.delete(PERSONA_STORE, id);
+};
+
+// --- KLASÖRLER ---
+
+export const loadFoldersFromDB = async (): Promise<Folder[]> => {
+  try {
+    const db = await initDB();
+    const folders = await Promise.all((await db.getAll(FOLDER_STORE)).map(openFolder));
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Klasör yükleme hatası:", error);
+    return [];
+  }
+};
+
+export const saveFolderToDB = async (folder: Folder): Promise<void> => {
+  const db = await initDB();
+  await db.put(FOLDER_STORE, await sealFolder(folder));
+  broadcastChange({ type: 'folders-changed' });
+};
+
+/**
+ * Deletes a folder; its sessions are kept and become unfiled in the same transaction.
+ */
+export const deleteFolderFromDB = async (id: string): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction([FOLDER_STORE, SESSION_STORE], 'readwrite');
+  await tx.objectStore(FOLDER_STORE).delete(id);
+  const unfiledIds: string[] = [];
+  let cursor = await tx.objectStore(SESSION_STORE).openCursor();
+  while (cursor) {
+    // Klasör şifreli kayıtta da açık alandır; kayıt çözülmeden güncellenir
+    if (cursor.value.folderId === id) {
+      const session = cursor.value;
+      await cursor.update({ ...session, folderId: undefined, revision: (session.revision || 0) + 1, writtenBy: TAB_ID });
+      unfiledIds.push(session.id);
+    }
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+  broadcastChange({ type: 'folders-changed' });
+  unfiledIds.forEach((sessionId) => broadcastChange({ type: 'session-changed', sessionId }));
+};
+
+// --- GENEL AYARLAR ---
+
+// Eksik alanlar (yeni eklenen ayarlar) varsayılanlarla tamamlanır
+export const loadSettingsFromDB = async (): Promise<AppSettings> => {
+  try {
+    const db = await initDB();
+    const record = await db.get(SETTINGS_STORE, SETTINGS_KEY);
+    if (!record) return DEFAULT_APP_SETTINGS;
+    const stored = await openSettings(record);
+    return {
+      providerSettings: { ...DEFAULT_APP_SETTINGS.providerSettings, ...stored.providerSettings },
+      generationConfig: { ...DEFAULT_APP_SETTINGS.generationConfig, ...stored.generationConfig },
+      context: { ...DEFAULT_APP_SETTINGS.context, ...stored.context },
+      prices: stored.prices || DEFAULT_APP_SETTINGS.prices,
+      budget: { ...DEFAULT_APP_SETTINGS.budget, ...stored.budget },
+      codeBlocks: { ...DEFAULT_APP_SETTINGS.codeBlocks, ...stored.codeBlocks },
+    };
+  } catch (error) {
+    console.error("Ayar yükleme hatası:", error);
+    return DEFAULT_APP_SETTINGS;
+  }
+};
+
+export const saveSettingsToDB = async (settings: AppSettings): Promise<void> => {
+  const db = await initDB();
+  await db.put(SETTINGS_STORE, await sealSettings(settings), SETTINGS_KEY);
+};
+
+// --- KULLANIM KAYDI ---
+
+export const loadUsageLog = async (): Promise<UsageEntry[]> => {
+  try {
+    const db = await initDB();
+    return await Promise.all((await db.getAllFromIndex(USAGE_STORE, 'by_time')).map(openUsageEntry));
+  } catch (error) {
+    console.error("Kullanım kaydı yükleme hatası:", error);
+    return [];
+  }
+};
+
+export const saveUsageEntry = async (entry: UsageEntry): Promise<void> => {
+  const db = await initDB();
+  await db.put(USAGE_STORE, await sealUsageEntry(entry));
+};
+
+// --- EKLER ---
+
+export const saveAttachmentBlobs = async (records: AttachmentBlob[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await initDB();
+  const sealed = await Promise.all(records.map(sealAttachment));
+  const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+  await Promise.all([...sealed.map((record) => tx.store.put(record)), tx.done]);
+};
+
+export const loadAttachmentBlob = async (hash: string, mimeType: string): Promise<Blob | undefined> => {
+  const db = await initDB();
+  for (const id of await attachmentIds(hash)) {
+    const record = await db.get(ATTACHMENT_STORE, id);
+    if (record) return (await openAttachment(record, mimeType)).blob;
+  }
+  return undefined;
+};
+
+// Seçilip henüz gönderilmemiş eklerin referansı yoktur; bu süreden yeni Blob'lar silinmez
+const ATTACHMENT_GC_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Deletes blobs no session refers to any more. Recently stored blobs are kept,
+ * because a file picked for a message that is not sent yet has no reference.
+ * Skipped while records are re-encrypted: messages and blobs may then refer to each other with different keys.
+ * @returns The number of deleted blobs.
+ */
+export const collectAttachmentGarbage = async (): Promise<number> => {
+  if (getVaultConfig()?.resealPending) return 0;
+  const db = await initDB();
+  const referenced = new Set<string>();
+  const addReferences = (msg: Message) => (msg.attachments || []).forEach((att) => referenced.add(att.hash));
+  (await db.getAll(MESSAGE_STORE)).forEach((record) => {
+    if (isSealed(record)) record.attachmentHashes.forEach((hash) => referenced.add(hash));
+    else addReferences(record);
+  });
+  // Taşınmamış eski kayıtlar da sayılır (taşıma yarıda kaldıysa ekleri silinmesin)
+  (await db.getAll(STORE_NAME)).forEach((session) => session.messages.forEach(addReferences));
+
+  const cutoff = Date.now() - ATTACHMENT_GC_GRACE_MS;
+  const tx = db.transaction(ATTACHMENT_STORE, 'readwrite');
+  let deleted = 0;
+  let cursor = await tx.store.openCursor();
+  while (cursor) {
+    if (!referenced.has(cursor.value.hash) && cursor.value.createdAt < cutoff) {
+      await cursor.delete();
+      deleted++;
+    }
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+  return deleted;
+};
+
+// --- ŞİFRELEME ---
+
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// Yapılandırma her seferinde yeniden okunur: başka bir sekme şifrelemeyi açmış ya da parolayı değiştirmiş olabilir
+export const getVaultStatus = async (): Promise<VaultState> => {
+  const db = await initDB();
+  setVaultConfig(await db.get(VAULT_STORE, VAULT_KEY));
+  return getVaultState();
+};
+
+const writeVaultConfig = async (db: IDBPDatabase<GeminiDB>, config: VaultConfig) => {
+  await db.put(VAULT_STORE, config, VAULT_KEY);
+  setVaultConfig(config);
+};
+
+/**
+ * Unwraps every data key of the vault with the passphrase.
+ * @throws WrongPassphraseError
+ */
+const unwrapDataKeys = async (config: VaultConfig, passphrase: string) => {
+  const wrappingKey = await deriveWrappingKey(passphrase, config.salt, config.iterations);
+  try {
+    return await Promise.all(config.keys.map(async (wrapped) => ({ id: wrapped.id, raw: await unwrapDataKey(wrappingKey, wrapped) })));
+  } catch {
+    throw new WrongPassphraseError();
+  }
+};
+
+type SealedStoreName = 'session_meta' | 'messages' | 'search_index' | 'attachments' | 'folders' | 'personas' | 'settings' | 'usage_log';
+
+/**
+ * Re-encrypts the records of one store in batches. Decryption is async, so each record is read first
+ * and written in a later transaction only if it still needs it (a record saved meanwhile already uses the current key).
+ * A record whose key is derived from the data key (attachments) moves to its new key.
+ */
+const resealStore = async <Name extends SealedStoreName>(
+  db: IDBPDatabase<GeminiDB>,
+  name: Name,
+  batchSize: number,
+  reseal: (record: StoreValue<GeminiDB, Name>) => Promise<StoreValue<GeminiDB, Name>>,
+  onRecord: () => void
+): Promise<number> => {
+  const keys = await db.getAllKeys(name);
+  let count = 0;
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const batch = keys.slice(i, i + batchSize);
+    const resealed: [StoreKey<GeminiDB, Name>, StoreValue<GeminiDB, Name>][] = [];
+    for (const key of batch) {
+      const record = await db.get(name, key);
+      if (record && needsReseal(record)) resealed.push([key, await reseal(record)]);
+    }
+    const tx = db.transaction(name, 'readwrite');
+    await Promise.all([
+      ...resealed.map(async ([key, record]) => {
+        const current = await tx.store.get(key);
+        if (current && needsReseal(current)) {
+          // Ayarlar deposunun anahtarı kayıt dışındadır
+          const stored = tx.store.keyPath ? await tx.store.put(record) : await tx.store.put(record, key);
+          if (indexedDB.cmp(stored, key) !== 0) await tx.store.delete(key);
+          count++;
+        }
+      }),
+      tx.done,
+    ]);
+    batch.forEach(onRecord);
+  }
+  return count;
+};
+
+// Diğer sekmeler kilitlenmeden önce akan cevaplarını eski anahtarla kaydeder; son tur bunları bekler
+const RESEAL_SETTLE_MS = 1000;
+const MAX_RESEAL_PASSES = 3;
+
+/**
+ * Encrypts everything not yet encrypted with the current key: plaintext records after encryption is enabled,
+ * records of the previous key after a passphrase change. Search terms are hashed again with the new key.
+ * When done, the previous keys are dropped from the configuration.
+ */
+const resealRecords = async (db: IDBPDatabase<GeminiDB>, onProgress?: (done: number, total: number) => void) => {
+  const keyId = getVaultConfig()?.currentKeyId;
+  await migrateLegacySessions(db);
+  const names: SealedStoreName[] = [
+    SESSION_STORE, MESSAGE_STORE, SEARCH_STORE, ATTACHMENT_STORE, FOLDER_STORE, PERSONA_STORE, SETTINGS_STORE, USAGE_STORE,
+  ];
+  const total = (await Promise.all(names.map((name) => db.count(name)))).reduce((a, b) => a + b, 0);
+  let done = 0;
+  const resealAll = async (step: () => void) => (
+    await resealStore(db, SESSION_STORE, 50, async (record) => sealSessionMeta(await openSessionMeta(record)), step) +
+    await resealStore(db, MESSAGE_STORE, 50, async (record) => sealMessage(await openMessage(record)), step) +
+    await resealStore(db, SEARCH_STORE, 50, async (record) => sealSearchDoc(await openSearchDoc(record)), step) +
+    // Ekler büyük olabilir; bellekte az sayıda tutulur
+    await resealStore(db, ATTACHMENT_STORE, 4, resealAttachment, step) +
+    await resealStore(db, FOLDER_STORE, 50, async (record) => sealFolder(await openFolder(record)), step) +
+    await resealStore(db, PERSONA_STORE, 50, async (record) => sealPersona(await openPersona(record)), step) +
+    await resealStore(db, SETTINGS_STORE, 50, async (record) => sealSettings(await openSettings(record)), step) +
+    await resealStore(db, USAGE_STORE, 50, async (record) => sealUsageEntry(await openUsageEntry(record)), step)
+  );
+  await resealAll(() => onProgress?.(++done, total));
+  // Eski anahtar atılmadan önce ilk turdan sonra yazılan kayıtlar tekrar denetlenir
+  for (let pass = 0; pass < MAX_RESEAL_PASSES; pass++) {
+    await new Promise((resolve) => setTimeout(resolve, RESEAL_SETTLE_MS));
+    if (await resealAll(() => {}) === 0) break;
+  }
+
+  // Bu arada başka sekmede parola yeniden değiştiyse eski anahtarlar o sekmenin işi bitene kadar kalır
+  const config = await db.get(VAULT_STORE, VAULT_KEY);
+  if (!config || config.currentKeyId !== keyId) return;
+  await writeVaultConfig(db, { ...config, keys: config.keys.filter((key) => key.id === keyId), resealPending: false });
+  keepVaultKeys([config.currentKeyId]);
+};
+
+/**
+ * Unlocks the vault. Re-encryption that was cut short (tab closed while enabling or changing the passphrase)
+ * continues in the background.
+ * @throws WrongPassphraseError
+ */
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const db = await initDB();
+  const config = await db.get(VAULT_STORE, VAULT_KEY);
+  if (!config) return;
+  const keys = await unwrapDataKeys(config, passphrase);
+  setVaultConfig(config);
+  addVaultKeys(await Promise.all(keys.map(({ id, raw }) => importDataKey(id, raw))));
+  if (config.resealPending) {
+    resealRecords(db).catch((error) => console.error("Yeniden şifreleme hatası:", error));
+  }
+};
+
+/**
+ * Turns on encryption at rest: creates a data key wrapped with the passphrase and encrypts the existing sessions,
+ * messages, search index, attachments, folders, personas, settings and usage log. Other tabs lock.
+ */
+export const enableEncryption = async (passphrase: string, onProgress?: (done: number, total: number) => void): Promise<void> => {
+  const db = await initDB();
+  if (await db.get(VAULT_STORE, VAULT_KEY)) throw new Error('Encryption is already enabled.');
+  const salt = randomBytes(16);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const { id, raw } = createRawDataKey();
+  // Anahtar yapılandırmadan önce eklenir; bu sekme bir an bile kilitli görünmesin
+  addVaultKeys([await importDataKey(id, raw)]);
+  await writeVaultConfig(db, {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    keys: [await wrapDataKey(wrappingKey, id, raw)],
+    currentKeyId: id,
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    resealPending: true,
+  });
+  broadcastChange({ type: 'vault-changed' });
+  await resealRecords(db, onProgress);
+};
+
+/**
+ * Changes the passphrase and re-encrypts all records with a new data key. Until that finishes
+ * the previous key stays in the configuration (wrapped with the new passphrase), so nothing becomes unreadable.
+ * @throws WrongPassphraseError
+ */
+export const changePassphrase = async (
+  current: string,
+  next: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> => {
+  const db = await initDB();
+  const config = await db.get(VAULT_STORE, VAULT_KEY);
+  if (!config) throw new Error('Encryption is not enabled.');
+  const previous = await unwrapDataKeys(config, current);
+  const salt = randomBytes(16);
+  const wrappingKey = await deriveWrappingKey(next, salt, PBKDF2_ITERATIONS);
+  const fresh = createRawDataKey();
+  const keys = await Promise.all([fresh, ...previous].map(({ id, raw }) => wrapDataKey(wrappingKey, id, raw)));
+  addVaultKeys(await Promise.all([fresh, ...previous].map(({ id, raw }) => importDataKey(id, raw))));
+  await writeVaultConfig(db, { ...config, salt, iterations: PBKDF2_ITERATIONS, keys, currentKeyId: fresh.id, resealPending: true });
+  broadcastChange({ type: 'vault-changed' });
+  await resealRecords(db, onProgress);
+};
+
+export const setAutoLockMinutes = async (minutes: number): Promise<void> => {
+  const db = await initDB();
+  const config = await db.get(VAULT_STORE, VAULT_KEY);
+  if (config) await writeVaultConfig(db, { ...config, autoLockMinutes: minutes });
+};
@@ -0,0 +1,67 @@
+import { Persona } from "../types";
+
+export const DEFAULT_PERSONA_ID = 'default-gemini';
+
+// Modelin kafasının karışmaması için instruction'ı İngilizce verip Türkçe konuşmasını istemek genelde daha stabil çalışır.
+export const DEFAULT_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Gemini 3.0 Pro',
+    systemPrompt: `You are Gemini 3.0 Pro, a next-generation AI model created by Google.
+Today's date is {{date}}.
+
+Your knowledge cutoff is NOT 2024. You are aware of the current date provided above.
+Always answer in the language the user speaks (mostly Turkish).
+If asked about your version, state clearly that you are Gemini 3.0 Pro.`,
+    isBuiltIn: true,
+    createdAt: 0,
+  },
+  {
+    id: 'default-assistant',
+    name: 'Assistant (local models)',
+    systemPrompt: `You are a helpful AI assistant.
+Today's date is {{date}}.
+
+You are aware of the current date provided above.
+Always answer in the language the user speaks (mostly Turkish).`,
+    isBuiltIn: true,
+    createdAt: 1,
+  },
+];
+
+// Sistem talimatında kullanılabilen şablon değişkenleri
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'date', description: "Today's date (e.g. 18 Ekim 2026 Pazar)" },
+  { name: 'time', description: 'Current time (HH:MM)' },
+  { name: 'model', description: 'Name of the model in use' },
+];
+
+/**
+ * Replaces {{variable}} placeholders in a persona's system prompt.
+ * Unknown variables are left untouched so typos stay visible.
+ */
+export const renderSystemPrompt = (template: string, model: string): string => {
+  const now = new Date();
+  const values: Record<string, string> = {
+    // GÜNCEL TARİH (Her istekte dinamik olarak)
+    date: now.toLocaleDateString("tr-TR", {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    }),
+    time: now.toLocaleTimeString("tr-TR", { hour: '2-digit', minute: '2-digit' }),
+    model,
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+};
+
+/**
+ * Finds the persona for a session, falling back to the default one if it was deleted.
+ */
+export const resolvePersona = (personas: Persona[], personaId?: string): Persona => {
+  return personas.find(p => p.id === personaId)
+    || personas.find(p => p.id === DEFAULT_PERSONA_ID)
+    || DEFAULT_PERSONAS[0];
+};
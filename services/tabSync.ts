@@ -0,0 +1,75 @@
+import { SyncMessage } from "../types";
+
+// Bu sekmenin kimliği; kayıtlara yazan sekme olarak işlenir
+export const TAB_ID = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const CHANNEL_NAME = 'gemini-app-sync';
+
+let channel: BroadcastChannel | undefined;
+
+// BroadcastChannel olmayan ortamlarda senkronizasyon sessizce devre dışı kalır
+const getChannel = (): BroadcastChannel | undefined => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+/**
+ * Tells the other open tabs that stored data changed. The sending tab does not receive its own messages.
+ */
+export const broadcastChange = (message: SyncMessage) => {
+  getChannel()?.postMessage(message);
+};
+
+/**
+ * Listens for changes made in other tabs.
+ * @returns A function that stops listening.
+ */
+export const subscribeToChanges = (listener: (message: SyncMessage) => void): (() => void) => {
+  const current = getChannel();
+  if (!current) return () => {};
+  const handler = (event: MessageEvent<SyncMessage>) => listener(event.data);
+  current.addEventListener('message', handler);
+  return () => current.removeEventListener('message', handler);
+};
+
+// --- AKIŞ KİLİDİ ---
+
+// Kilit adı sekmeye özeldir: sorguda bu sekmenin kendi akışı başka sekmeninkinden ayrılır
+const streamLockPrefix = (sessionId: string) => `gemini-stream-${sessionId}@`;
+const streamLockName = (sessionId: string) => `${streamLockPrefix(sessionId)}${TAB_ID}`;
+
+// Bu sekmede akan cevap sayısı (otomatik kilit akış bitene kadar bekler)
+let activeStreams = 0;
+
+/**
+ * Holds a Web Lock while an answer streams into the session. The browser releases it
+ * when the tab closes or crashes, so other tabs can tell a live stream from an interrupted one.
+ * @returns A function that releases the lock.
+ */
+export const holdStreamLock = (sessionId: string): (() => void) => {
+  let release = () => {};
+  const held = new Promise<void>(resolve => { release = resolve; });
+  navigator.locks?.request(streamLockName(sessionId), () => held).catch(() => { /* kilit desteklenmiyor */ });
+  activeStreams++;
+  let released = false;
+  return () => {
+    if (!released) activeStreams--;
+    released = true;
+    release();
+  };
+};
+
+export const isStreamingHere = (): boolean => activeStreams > 0;
+
+// Başka bir sekme bu sohbete cevap akıtıyor mu (Web Locks yoksa bilinemez, hayır sayılır)
+export const isStreamingElsewhere = async (sessionId: string): Promise<boolean> => {
+  if (!navigator.locks) return false;
+  try {
+    const { held = [] } = await navigator.locks.query();
+    return held.some(lock => lock.name?.startsWith(streamLockPrefix(sessionId)) && lock.name !== streamLockName(sessionId));
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,73 @@
+import { ChatSession, ProviderSettings, UsageListener } from "../types";
+import { getActivePath } from "./messageTree";
+import { getHistoryMessages } from "./history";
+import { generateText } from "./providers";
+
+const TITLE_INSTRUCTION = `You write titles for chat conversations.
+Reply with a short descriptive title (2 to 6 words) in the language of the conversation.
+Reply with the title only: no quotes, no trailing punctuation, no prefix like "Title:".`;
+
+// Başlık için ilk turlar yeterli; uzun mesajlar kısaltılır
+const MAX_TURNS = 4;
+const MAX_CHARS_PER_TURN = 1500;
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Placeholder title shown until the model-generated one arrives.
+ */
+export const getPlaceholderTitle = (text: string, hasAttachments: boolean): string => {
+  const titleText = text || (hasAttachments ? 'Image Analysis' : 'New Chat');
+  return titleText.slice(0, 30) + (titleText.length > 30 ? '...' : '');
+};
+
+/**
+ * A session can get a generated title once it has at least one answer, unless the user named it.
+ */
+export const canGenerateTitle = (session: ChatSession): boolean => {
+  return session.titleSource !== 'user' &&
+    getHistoryMessages(getActivePath(session)).some(msg => msg.role === 'model');
+};
+
+/**
+ * True while the session still has its placeholder title (new chats and old truncated titles).
+ */
+export const needsGeneratedTitle = (session: ChatSession): boolean => {
+  return session.titleSource !== 'generated' && canGenerateTitle(session);
+};
+
+const cleanTitle = (raw: string): string => {
+  const firstLine = raw.split('\n').find(line => line.trim()) || '';
+  return firstLine
+    .replace(/^\s*(title|başlık)\s*:\s*/i, '')
+    .replace(/^["'“”«*#\s]+|["'“”»*.\s]+$/g, '')
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim();
+};
+
+/**
+ * Asks the session's own model for a short title based on the first turns of the selected branch.
+ * @returns The cleaned title, or null if the model returned nothing usable.
+ */
+export const generateSessionTitle = async (
+  session: ChatSession,
+  settings: ProviderSettings,
+  onUsage?: UsageListener
+): Promise<string | null> => {
+  const transcript = getHistoryMessages(getActivePath(session))
+    .slice(0, MAX_TURNS)
+    .map(msg => {
+      const files = msg.attachments?.length ? ` (attached: ${msg.attachments.map(a => a.name).join(', ')})` : '';
+      return `${msg.role === 'user' ? 'User' : 'Assistant'}${files}: ${msg.text.slice(0, MAX_CHARS_PER_TURN)}`;
+    })
+    .join('\n\n');
+
+  const title = cleanTitle(await generateText({
+    prompt: transcript,
+    attachments: [],
+    history: [],
+    config: { thinkingBudget: 0 },
+    settings,
+    systemInstruction: TITLE_INSTRUCTION,
+  }, onUsage));
+  return title || null;
+};
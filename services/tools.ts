@@ -0,0 +1,225 @@
+import { ToolContext, ToolDefinition, ToolStep } from "../types";
+import { isTextBased } from "./attachments";
+import { getAttachmentText } from "./attachmentStore";
+import { ProviderError } from "./errors";
+
+// Model bir cevapta en fazla bu kadar araç turu yapabilir (sonsuz döngüye karşı)
+export const MAX_TOOL_ROUNDS = 5;
+
+/**
+ * Thrown when the model still calls tools after the last allowed round, so the answer has no final text.
+ */
+export const toolLimitError = () => new ProviderError(
+  'unknown',
+  `The model was still calling tools after ${MAX_TOOL_ROUNDS} rounds and gave no final answer.`
+);
+
+// --- HESAP MAKİNESİ ---
+// eval kullanmadan: + - * / % ^, parantez, sabitler ve birkaç fonksiyon
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, log2: Math.log2, exp: Math.exp, min: Math.min, max: Math.max, pow: Math.pow,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z_]\w*|[-+*/%^(),]/gi) || [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error('The expression contains unsupported characters.');
+  }
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos++];
+    if (expected && token !== expected) throw new Error(`Expected "${expected}".`);
+    return token;
+  };
+
+  // Öncelik: toplama < çarpma < üs (sağdan) < tekli eksi < sayı/fonksiyon/parantez
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = take();
+      const right = parseUnary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const parseUnary = (): number => {
+    if (peek() === '-') { take(); return -parseUnary(); }
+    if (peek() === '+') { take(); return parseUnary(); }
+    return parsePower();
+  };
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^') { take(); return Math.pow(base, parseUnary()); }
+    return base;
+  };
+  const parseAtom = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('Unexpected end of expression.');
+    if (token === '(') {
+      const value = parseSum();
+      take(')');
+      return value;
+    }
+    if (/^\d/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) return CONSTANTS[name];
+    if (name in FUNCTIONS) {
+      take('(');
+      const args = [parseSum()];
+      while (peek() === ',') { take(); args.push(parseSum()); }
+      take(')');
+      return FUNCTIONS[name](...args);
+    }
+    throw new Error(`Unknown name "${token}".`);
+  };
+
+  const result = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}".`);
+  return result;
+};
+
+// --- BİRİM ÇEVİRME ---
+// Her birim, kategorisinin temel birimine çarpanıyla tanımlı (sıcaklık hariç)
+
+const UNITS: Record<string, Record<string, number>> = {
+  length: { m: 1, km: 1000, cm: 0.01, mm: 0.001, mi: 1609.344, yd: 0.9144, ft: 0.3048, in: 0.0254, nmi: 1852 },
+  mass: { kg: 1, g: 0.001, mg: 0.000001, t: 1000, lb: 0.45359237, oz: 0.028349523125 },
+  volume: { l: 1, ml: 0.001, m3: 1000, gal: 3.785411784, qt: 0.946352946, pt: 0.473176473, cup: 0.2365882365, floz: 0.0295735295625 },
+  area: { m2: 1, km2: 1000000, cm2: 0.0001, ha: 10000, acre: 4046.8564224, ft2: 0.09290304, mi2: 2589988.110336 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 0.514444 },
+  time: { s: 1, ms: 0.001, min: 60, h: 3600, d: 86400, week: 604800 },
+  data: { b: 1, kb: 1000, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1048576, gib: 1073741824 },
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+const toCelsius = (value: number, unit: string) =>
+  unit === 'f' ? (value - 32) * 5 / 9 : unit === 'k' ? value - 273.15 : value;
+const fromCelsius = (value: number, unit: string) =>
+  unit === 'f' ? value * 9 / 5 + 32 : unit === 'k' ? value + 273.15 : value;
+
+const convertUnits = (value: number, from: string, to: string): number => {
+  const source = from.trim().toLowerCase();
+  const target = to.trim().toLowerCase();
+  if (TEMPERATURE_UNITS.includes(source) && TEMPERATURE_UNITS.includes(target)) {
+    return fromCelsius(toCelsius(value, source), target);
+  }
+  const category = Object.values(UNITS).find(units => source in units && target in units);
+  if (!category) {
+    throw new Error(`Cannot convert "${from}" to "${to}". Supported units: ${[...Object.values(UNITS).flatMap(Object.keys), ...TEMPERATURE_UNITS].join(', ')}`);
+  }
+  return value * category[source] / category[target];
+};
+
+// --- EK ARAMA ---
+
+const MAX_ATTACHMENT_MATCHES = 20;
+
+const searchAttachments = async (query: string, context: ToolContext) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) throw new Error('The query is empty.');
+
+  // Aynı dosya birden fazla mesaja eklenmiş olabilir
+  const files = context.attachments.filter((att, i, all) =>
+    isTextBased(att.mimeType) && all.findIndex(other => other.hash === att.hash) === i);
+  const matches: { file: string; line: number; text: string }[] = [];
+  for (const att of files) {
+    (await getAttachmentText(att)).split('\n').forEach((text, index) => {
+      if (matches.length < MAX_ATTACHMENT_MATCHES && text.toLowerCase().includes(needle)) {
+        matches.push({ file: att.name, line: index + 1, text: text.trim().slice(0, 300) });
+      }
+    });
+  }
+  return { searchedFiles: files.map(att => att.name), matches };
+};
+
+// --- KAYIT ---
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    name: 'calculator',
+    description: 'Evaluates a math expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2, exp, min, max, pow.',
+    parameters: {
+      type: 'object',
+      properties: { expression: { type: 'string', description: 'For example "(12.5 * 4) ^ 2 / sqrt(2)"' } },
+      required: ['expression'],
+    },
+    handler: (args) => ({ result: evaluateExpression(String(args.expression)) }),
+  },
+  {
+    name: 'get_current_datetime',
+    description: 'Returns the current date and time, optionally in a given IANA time zone.',
+    parameters: {
+      type: 'object',
+      properties: { timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Istanbul". Defaults to the user\'s time zone.' } },
+    },
+    handler: (args) => {
+      const now = new Date();
+      const timeZone = args.timeZone ? String(args.timeZone) : Intl.DateTimeFormat().resolvedOptions().timeZone;
+      return {
+        iso: now.toISOString(),
+        local: now.toLocaleString('en-GB', { timeZone, dateStyle: 'full', timeStyle: 'long' }),
+        timeZone,
+      };
+    },
+  },
+  {
+    name: 'convert_units',
+    description: 'Converts a value between units of length, mass, volume, area, speed, time, data size or temperature (c, f, k).',
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number' },
+        from: { type: 'string', description: 'Unit symbol, e.g. "km", "lb", "gal", "f", "km/h", "gib"' },
+        to: { type: 'string', description: 'Unit symbol to convert to' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+    handler: (args) => ({ result: convertUnits(Number(args.value), String(args.from), String(args.to)), unit: args.to }),
+  },
+  {
+    name: 'search_attachments',
+    description: 'Searches the text files (CSV, code, JSON, plain text...) attached anywhere in the current chat and returns matching lines.',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Case-insensitive text to look for' } },
+      required: ['query'],
+    },
+    handler: (args, context) => searchAttachments(String(args.query), context),
+  },
+];
+
+export const getTool = (name: string): ToolDefinition | undefined => TOOLS.find(tool => tool.name === name);
+
+/**
+ * Runs a tool call requested by the model. Errors are returned to the model
+ * (so it can correct itself) instead of being thrown.
+ */
+export const runToolCall = async (step: ToolStep, context: ToolContext): Promise<ToolStep> => {
+  const tool = getTool(step.name);
+  const startedAt = Date.now();
+  try {
+    if (!tool) throw new Error(`Unknown tool "${step.name}".`);
+    const result = await tool.handler(step.args, context);
+    return { ...step, result, durationMs: Date.now() - startedAt };
+  } catch (error: any) {
+    return { ...step, error: error.message || String(error), durationMs: Date.now() - startedAt };
+  }
+};
+
+// Modele geri gönderilen yanıt gövdesi
+export const toToolResponse = (step: ToolStep): Record<string, unknown> => {
+  return step.error !== undefined ? { error: step.error } : { result: step.result };
+};
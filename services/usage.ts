@@ -0,0 +1,156 @@
+import { BudgetStatus, DailyBudget, PriceEntry, TokenUsage, UsageEntry } from "../types";
+
+// Liste fiyatları (USD / 1M token, 200k altı istemler); ayarlardan düzenlenebilir
+export const DEFAULT_PRICES: PriceEntry[] = [
+  { model: 'gemini-3-pro', input: 2, output: 12, cachedInput: 0.2 },
+  { model: 'gemini-2.5-pro', input: 1.25, output: 10, cachedInput: 0.125 },
+  { model: 'gemini-2.5-flash', input: 0.3, output: 2.5, cachedInput: 0.03 },
+  { model: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4, cachedInput: 0.01 },
+];
+
+export const DEFAULT_BUDGET: DailyBudget = {
+  mode: 'warn',
+};
+
+// Sınırın bu oranına gelince uyarı gösterilir
+const WARNING_RATIO = 0.8;
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  candidateTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpricedRequests: number; // Fiyat tablosunda karşılığı olmayan modeller
+}
+
+export const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  candidateTokens: 0,
+  thinkingTokens: 0,
+  cachedTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  unpricedRequests: 0,
+});
+
+/**
+ * Finds the price for a model; the longest matching prefix wins
+ * (so "gemini-2.5-flash-lite" is not priced as "gemini-2.5-flash").
+ */
+export const findPrice = (model: string, prices: PriceEntry[]): PriceEntry | undefined => {
+  const name = model.replace(/^models\//, '').toLowerCase();
+  return prices
+    .filter(p => p.model && name.startsWith(p.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+/**
+ * Estimated cost in USD, or undefined if the model has no price.
+ * Cached prompt tokens use the cached price when there is one; thinking tokens count as output.
+ */
+export const computeCost = (usage: TokenUsage, model: string, prices: PriceEntry[]): number | undefined => {
+  const price = findPrice(model, prices);
+  if (!price) return undefined;
+  const uncachedPrompt = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (
+    uncachedPrompt * price.input +
+    usage.cachedTokens * (price.cachedInput ?? price.input) +
+    (usage.candidateTokens + usage.thinkingTokens) * price.output
+  ) / 1_000_000;
+};
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry, prices: PriceEntry[]): UsageTotals => {
+  const cost = computeCost(entry.usage, entry.model, prices);
+  return {
+    requests: totals.requests + 1,
+    promptTokens: totals.promptTokens + entry.usage.promptTokens,
+    candidateTokens: totals.candidateTokens + entry.usage.candidateTokens,
+    thinkingTokens: totals.thinkingTokens + entry.usage.thinkingTokens,
+    cachedTokens: totals.cachedTokens + entry.usage.cachedTokens,
+    totalTokens: totals.totalTokens + entry.usage.totalTokens,
+    cost: totals.cost + (cost ?? 0),
+    unpricedRequests: totals.unpricedRequests + (cost === undefined ? 1 : 0),
+  };
+};
+
+// Yerel saate göre gün anahtarı (YYYY-MM-DD)
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const groupBy = (log: UsageEntry[], prices: PriceEntry[], keyOf: (entry: UsageEntry) => string) => {
+  const groups = new Map<string, UsageTotals>();
+  log.forEach(entry => {
+    const key = keyOf(entry);
+    groups.set(key, addEntry(groups.get(key) || emptyTotals(), entry, prices));
+  });
+  return groups;
+};
+
+export const getTotals = (log: UsageEntry[], prices: PriceEntry[]): UsageTotals => {
+  return log.reduce((totals, entry) => addEntry(totals, entry, prices), emptyTotals());
+};
+
+/**
+ * Totals per local day, newest day first.
+ */
+export const getUsageByDay = (log: UsageEntry[], prices: PriceEntry[]): { day: string; totals: UsageTotals }[] => {
+  return [...groupBy(log, prices, entry => getDayKey(entry.timestamp))]
+    .map(([day, totals]) => ({ day, totals }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+};
+
+/**
+ * Totals per session, most expensive first (then by tokens for unpriced models).
+ */
+export const getUsageBySession = (log: UsageEntry[], prices: PriceEntry[]): { sessionId: string; totals: UsageTotals }[] => {
+  return [...groupBy(log, prices, entry => entry.sessionId)]
+    .map(([sessionId, totals]) => ({ sessionId, totals }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.totalTokens - a.totals.totalTokens);
+};
+
+/**
+ * Checks today's spend against the daily budget. In "block" mode sending is
+ * blocked once a limit is reached; both modes warn when a limit is close.
+ */
+export const getBudgetStatus = (log: UsageEntry[], prices: PriceEntry[], budget: DailyBudget, now = Date.now()): BudgetStatus => {
+  const today = getDayKey(now);
+  const totals = getTotals(log.filter(entry => getDayKey(entry.timestamp) === today), prices);
+
+  const ratios: { ratio: number; label: string }[] = [];
+  if (budget.costLimit) {
+    ratios.push({ ratio: totals.cost / budget.costLimit, label: `${formatCost(totals.cost)} of ${formatCost(budget.costLimit)}` });
+  }
+  if (budget.tokenLimit) {
+    ratios.push({ ratio: totals.totalTokens / budget.tokenLimit, label: `${totals.totalTokens.toLocaleString()} of ${budget.tokenLimit.toLocaleString()} tokens` });
+  }
+  const worst = ratios.sort((a, b) => b.ratio - a.ratio)[0];
+  if (!worst || worst.ratio < WARNING_RATIO) return { level: 'ok' };
+
+  if (worst.ratio >= 1) {
+    return budget.mode === 'block'
+      ? { level: 'blocked', message: `Daily budget reached (${worst.label}). Sending is blocked until tomorrow.` }
+      : { level: 'warning', message: `Daily budget exceeded (${worst.label}).` };
+  }
+  return { level: 'warning', message: `Close to the daily budget (${worst.label}).` };
+};
+
+// Araç turları gibi birden fazla istekten oluşan cevaplar için
+export const addTokenUsage = (a: TokenUsage | undefined, b: TokenUsage): TokenUsage => ({
+  promptTokens: (a?.promptTokens || 0) + b.promptTokens,
+  candidateTokens: (a?.candidateTokens || 0) + b.candidateTokens,
+  thinkingTokens: (a?.thinkingTokens || 0) + b.thinkingTokens,
+  cachedTokens: (a?.cachedTokens || 0) + b.cachedTokens,
+  totalTokens: (a?.totalTokens || 0) + b.totalTokens,
+});
+
+export const formatCost = (cost: number): string => {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
@@ -0,0 +1,276 @@
+import {
+  AppSettings, AttachmentBlob, AttachmentRecord, Folder, FolderRecord, MessageRecord, Persona, PersonaRecord,
+  SearchDoc, SearchRecord, Sealed, SessionMeta, SessionRecord, SettingsRecord, StoredMessage, UsageEntry, UsageRecord,
+  VaultConfig, VaultState
+} from "../types";
+import { hashBlob } from "./attachments";
+import { DataKey, hashTerm, openBytes, openJson, sealBytes, sealJson } from "./crypto";
+
+/**
+ * Thrown when encrypted data is read or written while the vault is locked.
+ */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Stored chats are encrypted and locked.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+// Yapılandırma IndexedDB'den okunur (storage); anahtarlar sadece bellekte, kilit açıkken tutulur
+let config: VaultConfig | undefined;
+const keys = new Map<string, DataKey>();
+const listeners = new Set<(state: VaultState) => void>();
+const beforeLockHandlers = new Set<() => Promise<void>>();
+
+export const getVaultState = (): VaultState => ({
+  enabled: !!config,
+  unlocked: !config || keys.has(config.currentKeyId),
+  autoLockMinutes: config?.autoLockMinutes || 0,
+});
+
+const notify = () => {
+  const state = getVaultState();
+  listeners.forEach(listener => listener(state));
+};
+
+/**
+ * Listens for lock, unlock and configuration changes.
+ * @returns A function that stops listening.
+ */
+export const subscribeToVault = (listener: (state: VaultState) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getVaultConfig = (): VaultConfig | undefined => config;
+
+export const setVaultConfig = (next: VaultConfig | undefined) => {
+  config = next;
+  notify();
+};
+
+export const addVaultKeys = (added: DataKey[]) => {
+  added.forEach(key => keys.set(key.id, key));
+  notify();
+};
+
+// Yeniden şifreleme bitince eski anahtarlar bellekten de atılır
+export const keepVaultKeys = (ids: string[]) => {
+  Array.from(keys.keys()).forEach(id => { if (!ids.includes(id)) keys.delete(id); });
+};
+
+/**
+ * Registers work that must finish while the keys are still in memory, e.g. saving an answer that is streaming.
+ * @returns A function that removes the handler.
+ */
+export const onBeforeLock = (handler: () => Promise<void>): (() => void) => {
+  beforeLockHandlers.add(handler);
+  return () => { beforeLockHandlers.delete(handler); };
+};
+
+export const lockVault = async (): Promise<void> => {
+  await Promise.all(Array.from(beforeLockHandlers, handler => handler().catch(error => console.error("Kilit öncesi kayıt hatası:", error))));
+  keys.clear();
+  notify();
+};
+
+// Şifreleme kapalıysa undefined (kayıtlar açık yazılır)
+const currentKey = (): DataKey | undefined => {
+  if (!config) return undefined;
+  const key = keys.get(config.currentKeyId);
+  if (!key) throw new VaultLockedError();
+  return key;
+};
+
+const keyFor = (sealed: Sealed): DataKey => {
+  const key = keys.get(sealed.keyId);
+  if (!key) throw new VaultLockedError();
+  return key;
+};
+
+export const isSealed = (record: object): record is { sealed: Sealed } => 'sealed' in record;
+
+/**
+ * Whether a record still has to be encrypted with the current key (after enabling encryption or a passphrase change).
+ */
+export const needsReseal = (record: object): boolean => {
+  if (!config) return false;
+  return !isSealed(record) || record.sealed.keyId !== config.currentKeyId;
+};
+
+// --- OTURUMLAR ---
+
+type SessionContent = Omit<SessionMeta, 'id' | 'revision' | 'writtenBy' | 'streamingMessageId' | 'folderId'>;
+
+// Sürüm, yazan sekme, akış işareti ve klasör açık kalır: bunlar kaydı çözmeden güncellenir
+export const sealSessionMeta = async (meta: SessionMeta): Promise<SessionRecord> => {
+  const key = currentKey();
+  if (!key) return meta;
+  const { id, revision, writtenBy, streamingMessageId, folderId, ...content } = meta;
+  return { id, revision, writtenBy, streamingMessageId, folderId, sealed: await sealJson(key, content) };
+};
+
+export const openSessionMeta = async (record: SessionRecord): Promise<SessionMeta> => {
+  if (!isSealed(record)) return record;
+  const { sealed, ...visible } = record;
+  return { ...(await openJson<SessionContent>(keyFor(sealed), sealed)), ...visible };
+};
+
+// --- MESAJLAR ---
+
+// Ek deposundaki kayıt anahtarı: içerik özeti veri anahtarıyla HMAC'lenir (bilinen bir dosyanın varlığı denetlenemesin)
+const attachmentId = (key: DataKey, hash: string) => hashTerm(key, `attachment:${hash}`);
+
+export const sealMessage = async (record: StoredMessage): Promise<MessageRecord> => {
+  const key = currentKey();
+  if (!key) return record;
+  const { sessionId, order, ...msg } = record;
+  return {
+    sessionId,
+    order,
+    id: msg.id,
+    attachmentHashes: await Promise.all((msg.attachments || []).map(att => attachmentId(key, att.hash))),
+    sealed: await sealJson(key, msg),
+  };
+};
+
+export const openMessage = async (record: MessageRecord): Promise<StoredMessage> => {
+  if (!isSealed(record)) return record;
+  const msg = await openJson<Omit<StoredMessage, 'sessionId' | 'order'>>(keyFor(record.sealed), record.sealed);
+  return { ...msg, sessionId: record.sessionId, order: record.order };
+};
+
+// --- ARAMA İNDEKSİ ---
+
+// Daha uzun önekler indekslenmez; aday bulunduktan sonra tam eşleşme çözülmüş metinde denetlenir
+const MAX_PREFIX_LENGTH = 12;
+
+const indexPrefix = (term: string) => term.slice(0, MAX_PREFIX_LENGTH);
+
+export const sealSearchDoc = async (doc: SearchDoc): Promise<SearchRecord> => {
+  const key = currentKey();
+  if (!key) return doc;
+  const { id, sessionId, ...content } = doc;
+  // Önek araması için her kelimenin bütün önekleri (en az 2 harf) ayrı ayrı hashlenir
+  const prefixes = new Set(doc.terms.flatMap(term =>
+    Array.from({ length: Math.min(term.length, MAX_PREFIX_LENGTH) - 1 }, (_, i) => term.slice(0, i + 2))
+  ));
+  return {
+    id,
+    sessionId,
+    terms: await Promise.all(Array.from(prefixes, prefix => hashTerm(key, prefix))),
+    sealed: await sealJson(key, content),
+  };
+};
+
+export const openSearchDoc = async (record: SearchRecord): Promise<SearchDoc> => {
+  if (!isSealed(record)) return record;
+  const content = await openJson<Omit<SearchDoc, 'id' | 'sessionId'>>(keyFor(record.sealed), record.sealed);
+  return { ...content, id: record.id, sessionId: record.sessionId };
+};
+
+/**
+ * The index keys to look a query word up with: one hash per data key in memory
+ * (while re-encrypting, documents of both keys exist). Undefined when encryption is off.
+ */
+export const hashSearchTerm = async (term: string): Promise<string[] | undefined> => {
+  if (!config) return undefined;
+  if (keys.size === 0) throw new VaultLockedError();
+  return Promise.all(Array.from(keys.values(), key => hashTerm(key, indexPrefix(term))));
+};
+
+// --- EKLER VE KLASÖRLER ---
+
+// Aynı dosya aynı anahtarla aynı kimliği alır; tek kopya saklanması şifreli depoda da sürer
+export const sealAttachment = async (record: AttachmentBlob): Promise<AttachmentRecord> => {
+  const key = currentKey();
+  if (!key) return record;
+  return {
+    hash: await attachmentId(key, record.hash),
+    createdAt: record.createdAt,
+    sealed: await sealBytes(key, await record.blob.arrayBuffer()),
+  };
+};
+
+// Şifreli kayıtta Blob tipi saklanmaz; ekin kendi tipi verilir
+export const openAttachment = async (record: AttachmentRecord, mimeType: string): Promise<AttachmentBlob> => {
+  if (!isSealed(record)) return record;
+  const bytes = await openBytes(keyFor(record.sealed), record.sealed);
+  return { hash: record.hash, createdAt: record.createdAt, blob: new Blob([bytes], { type: mimeType }) };
+};
+
+/**
+ * The store keys an attachment may be saved under: one per data key in memory, and the content hash itself
+ * for records not encrypted yet. Only the content hash when encryption is off.
+ */
+export const attachmentIds = async (hash: string): Promise<string[]> => {
+  if (!config) return [hash];
+  if (keys.size === 0) throw new VaultLockedError();
+  return [...await Promise.all(Array.from(keys.values(), key => attachmentId(key, hash))), hash];
+};
+
+// Şifreli kayıtta içerik özeti saklanmaz; yeni anahtarın kimliği için çözülen içerikten yeniden hesaplanır
+export const resealAttachment = async (record: AttachmentRecord): Promise<AttachmentRecord> => {
+  if (!isSealed(record)) return sealAttachment(record);
+  const { blob, createdAt } = await openAttachment(record, '');
+  return sealAttachment({ hash: await hashBlob(blob), createdAt, blob });
+};
+
+export const sealFolder = async (folder: Folder): Promise<FolderRecord> => {
+  const key = currentKey();
+  if (!key) return folder;
+  const { id, ...content } = folder;
+  return { id, sealed: await sealJson(key, content) };
+};
+
+export const openFolder = async (record: FolderRecord): Promise<Folder> => {
+  if (!isSealed(record)) return record;
+  return { ...(await openJson<Omit<Folder, 'id'>>(keyFor(record.sealed), record.sealed)), id: record.id };
+};
+
+// --- PERSONALAR, AYARLAR VE KULLANIM KAYDI ---
+
+export const sealPersona = async (persona: Persona): Promise<PersonaRecord> => {
+  const key = currentKey();
+  if (!key) return persona;
+  const { id, ...content } = persona;
+  return { id, sealed: await sealJson(key, content) };
+};
+
+export const openPersona = async (record: PersonaRecord): Promise<Persona> => {
+  if (!isSealed(record)) return record;
+  return { ...(await openJson<Omit<Persona, 'id'>>(keyFor(record.sealed), record.sealed)), id: record.id };
+};
+
+// Ayarlar API anahtarlarını da içerir; kaydın tamamı şifrelenir
+export const sealSettings = async (settings: AppSettings): Promise<SettingsRecord> => {
+  const key = currentKey();
+  if (!key) return settings;
+  return { sealed: await sealJson(key, settings) };
+};
+
+export const openSettings = async (record: SettingsRecord): Promise<AppSettings> => {
+  if (!isSealed(record)) return record;
+  return openJson<AppSettings>(keyFor(record.sealed), record.sealed);
+};
+
+// Zaman damgası açık kalır: kayıt by_time indeksiyle sıralı okunur
+export const sealUsageEntry = async (entry: UsageEntry): Promise<UsageRecord> => {
+  const key = currentKey();
+  if (!key) return entry;
+  const { id, timestamp, ...content } = entry;
+  return { id, timestamp, sealed: await sealJson(key, content) };
+};
+
+export const openUsageEntry = async (record: UsageRecord): Promise<UsageEntry> => {
+  if (!isSealed(record)) return record;
+  const content = await openJson<Omit<UsageEntry, 'id' | 'timestamp'>>(keyFor(record.sealed), record.sealed);
+  return { ...content, id: record.id, timestamp: record.timestamp };
+};
@@ -1,32 +1,374 @@
+// Oturumda sadece referans tutulur; içerik 'attachments' deposunda özetiyle (hash) saklanan Blob'dur
 export interface Attachment {
+  name: string;
+  mimeType: string;
+  hash: string; // İçeriğin SHA-256 özeti (hex); aynı dosya bir kez saklanır
+  size: number; // Byte
+}
+
+// Eski kayıtlarda ve yedek dosyalarında ek verisi mesajın içindedir
+export interface InlineAttachment {
   name: string;
   mimeType: string;
   data: string; // Base64 encoded string (raw data, no data URI prefix)
 }
 
+export interface AttachmentBlob {
+  hash: string;
+  blob: Blob;
+  createdAt: number; // Çöp toplamada yeni (henüz gönderilmemiş) ekleri korumak için
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
-  text: string;
+  text: string; // Düz metin (metin parçalarının birleşimi); arama, başlık ve geçmiş için
+  parts?: MessagePart[]; // Cevabın sıralı parçaları (metin, görsel, kod...). Eski kayıtlarda yok, migrasyonla doldurulur
   attachments?: Attachment[];
   timestamp: number;
   isError?: boolean;
+  errorKind?: ErrorKind; // Hata mesajlarında hatanın türü (eski kayıtlarda yok)
+  isStopped?: boolean; // Kullanıcı üretimi durdurdu, metin yarım kaldı
+  isInterrupted?: boolean; // Sekme ya da tarayıcı akış sürerken kapandı; son ara kayıttan kurtarıldı
+  parentId?: string | null; // Ağaçtaki üst mesaj (null = kök). Eski düz kayıtlarda yok, migrasyonla doldurulur
+  isGreeting?: boolean; // Personanın açılış mesajı; modele geçmiş olarak gönderilmez
+  context?: ContextRecord; // Model cevabı için hangi turların gönderildiği
+  thoughts?: string; // Modelin düşünce özeti; sadece gösterilir, geçmiş olarak asla gönderilmez
+  thinkingMs?: number; // Düşünme süresi (ilk düşünce parçasından cevabın ilk parçasına)
+  toolSteps?: ToolStep[]; // Cevap üretilirken yapılan araç çağrıları (geçmişe gönderilmez)
+  usage?: TokenUsage; // Sağlayıcının bildirdiği token kullanımı (araç turları dahil toplam)
+  model?: string; // Cevabı üreten model (fiyat hesabı için)
+  finishReason?: FinishReason; // Eski kayıtlarda ve akış bildirmediyse yok
+  safetyRatings?: SafetyRating[]; // Sağlayıcının cevap için bildirdiği güvenlik değerlendirmesi
 }
 
+// Model cevabının türlü parçaları; görseller ve dosyalar base64 olarak saklanır
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }
+  | { type: 'file'; mimeType: string; data?: string; uri?: string } // Görsel olmayan inline veri ya da dosya bağlantısı
+  | { type: 'code'; language: string; code: string } // Modelin çalıştırdığı kod (executableCode)
+  | { type: 'code-result'; outcome: CodeOutcome; output: string }; // Kodun çıktısı (codeExecutionResult)
+
+export type CodeOutcome = 'ok' | 'failed' | 'timeout';
+
 export interface ChatSession {
   id: string;
   title: string;
-  messages: Message[];
+  messages: Message[]; // Tüm dallardaki mesajlar (parentId ile ağaç olarak bağlı)
+  activeChildren?: Record<string, string>; // Her düğümde seçili varyant (üst mesaj id -> çocuk id)
   createdAt: number;
   updatedAt : number;
+  providerSettings?: ProviderSettings; // Eski kayıtlarda yok, varsayılan Gemini kullanılır
+  personaId?: string; // Eski kayıtlarda yok, varsayılan persona kullanılır
+  generationConfig?: Partial<GeminiConfig>; // Sadece bu sohbete özel ayarlar; olmayanlar genel varsayılandan gelir
+  contextSummary?: ContextSummary; // 'summarize' politikasında eski turların son özeti
+  titleSource?: TitleSource; // Eski kayıtlarda yok ('auto' sayılır)
+  streamingMessageId?: string; // Cevap akarken ara kayıtla birlikte yazılır; açılışta hâlâ varsa cevap yarım kalmıştır
+  pinned: boolean; // Sabitlenenler klasörlerden bağımsız olarak en üstte listelenir
+  archived: boolean; // Arşivlenenler sadece arşiv görünümünde listelenir
+  folderId?: string; // Yoksa (ya da klasör silindiyse) klasörsüz
+  tags: string[];
+  revision?: number; // Her yazmada artar; başka sekmenin daha yeni kaydını görmemiş bir yazma reddedilir
+  writtenBy?: string; // Son yazan sekme
 }
 
+// Kenar çubuğundaki proje klasörü; oturumlar folderId ile bağlanır
+export interface Folder {
+  id: string;
+  name: string;
+  collapsed?: boolean;
+  createdAt: number;
+}
+
+// Oturum listesi (kenar çubuğu) için mesajsız kayıt; mesajlar sohbet açılınca ayrı depodan yüklenir
+export type SessionMeta = Omit<ChatSession, 'messages'>;
+
+// Mesaj deposundaki kayıt: oturum id'si ve oturumdaki sırasıyla anahtarlanır
+export type StoredMessage = Message & { sessionId: string; order: number };
+
+// 'auto': ilk mesajdan kesilmiş geçici başlık, 'generated': modelin yazdığı, 'user': elle verilen (asla ezilmez)
+export type TitleSource = 'auto' | 'generated' | 'user';
+
 export interface ChatState {
   messages: Message[];
   isLoading: boolean;
   thinkingBudget: number;
 }
 
+// Tüm sağlayıcılar için üretim ayarları; boş bırakılanlarda sağlayıcının kendi varsayılanı geçerlidir
 export interface GeminiConfig {
-  thinkingBudget: number;
-}
\ No newline at end of file
+  thinkingBudget: number; // Sadece Gemini
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  toolsEnabled?: boolean; // Boşsa sadece Gemini'de açık (yerel modellerin çoğu araç desteklemez)
+  safetySettings?: Partial<Record<SafetyCategory, SafetyThreshold>>; // Sadece Gemini; verilmeyen kategori model varsayılanını kullanır
+}
+
+export type SafetyCategory = 'harassment' | 'hate-speech' | 'sexually-explicit' | 'dangerous-content';
+export type SafetyThreshold = 'off' | 'block-none' | 'block-only-high' | 'block-medium-and-above' | 'block-low-and-above';
+
+// Cevabın neden bittiği; 'stop' dışındakiler mesajda rozet olarak gösterilir
+export type FinishReason = 'stop' | 'max-tokens' | 'safety' | 'recitation' | 'prohibited' | 'other';
+
+export interface SafetyRating {
+  category: string; // 'harassment', 'hate-speech'... (bilinmeyen kategoriler de aynı biçimde)
+  probability: 'negligible' | 'low' | 'medium' | 'high' | 'unknown';
+  blocked?: boolean;
+}
+
+// IndexedDB'de saklanan genel varsayılanlar (yeni sohbetler ve override'ı olmayan ayarlar)
+export interface AppSettings {
+  providerSettings: ProviderSettings;
+  generationConfig: GeminiConfig;
+  context: ContextSettings;
+  prices: PriceEntry[];
+  budget: DailyBudget;
+  codeBlocks: CodeBlockSettings;
+}
+
+// Kod bloklarının görünümü; her bloğun başlığındaki düğmelerden değiştirilir, tüm mesajlara uygulanır
+export interface CodeBlockSettings {
+  lineNumbers: boolean;
+  wrap: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;    // Önbellekten gelenler dahil
+  candidateTokens: number; // Cevap (düşünceler hariç)
+  thinkingTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+// Oturum silinse de harcama kaybolmasın diye kullanım ayrı bir kayıtta tutulur
+export interface UsageEntry {
+  id: string; // Model mesajının id'si (arka plan isteklerinde ondan türetilir)
+  sessionId: string;
+  model: string;
+  usage: TokenUsage;
+  timestamp: number;
+}
+
+// 1M token başına USD; model adı önek olarak eşleşir (en uzun önek kazanır)
+export interface PriceEntry {
+  model: string;
+  input: number;
+  output: number; // Düşünce tokenları da çıktı olarak ücretlendirilir
+  cachedInput?: number;
+}
+
+export interface DailyBudget {
+  costLimit?: number;  // USD
+  tokenLimit?: number;
+  mode: 'warn' | 'block';
+}
+
+export interface BudgetStatus {
+  level: 'ok' | 'warning' | 'blocked';
+  message?: string;
+}
+
+// Bağlam sınırı aşıldığında eski turlara ne yapılacağı
+export type ContextPolicy = 'drop-attachments' | 'truncate' | 'summarize';
+
+export interface ContextSettings {
+  limit: number; // Tahmini token sınırı
+  policy: ContextPolicy;
+}
+
+export interface ContextRecord {
+  sentIds: string[];       // Olduğu gibi gönderilen mesajlar
+  omittedIds: string[];    // Sınır yüzünden gönderilmeyenler
+  summarizedIds: string[]; // Özet olarak gönderilenler
+  strippedIds: string[];   // Ekleri çıkarılarak gönderilenler
+  tokens: number;          // Gönderilen isteğin tahmini boyutu
+  limit: number;
+}
+
+// Son cevapta bir mesajın bağlama nasıl girdiği (tam gönderilenler için durum yok)
+export type ContextStatus = 'omitted' | 'summarized' | 'stripped';
+
+export interface ContextSummary {
+  upToId: string; // Özetin kapsadığı son mesaj
+  text: string;
+}
+
+export type SettingsScope = 'global' | 'session';
+
+export type ProviderId = 'gemini' | 'openai';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string; // Sadece OpenAI uyumlu sunucular için (örn: http://localhost:11434/v1)
+  apiKey?: string;  // Boşsa ortam değişkenindeki anahtar kullanılır
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  attachments: Attachment[];
+  history: Message[]; // Seçili daldaki önceki mesajlar (mevcut prompt hariç)
+  config: GeminiConfig;
+  settings: ProviderSettings;
+  systemInstruction: string; // Şablon değişkenleri çözülmüş persona talimatı
+  signal?: AbortSignal;
+  tools?: ToolDefinition[]; // Verilmezse model araç çağıramaz
+  toolContext?: ToolContext;
+}
+
+// Araç işleyicilerinin erişebildiği sohbet verisi
+export interface ToolContext {
+  attachments: Attachment[]; // Oturumdaki tüm ekler
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema
+  handler: (args: Record<string, unknown>, context: ToolContext) => unknown | Promise<unknown>;
+}
+
+export interface ToolStep {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs?: number; // Sonuç gelene kadar boş: araç çalışıyor
+}
+
+// Akıştaki parçalar: cevap metni ve (destekleyen modellerde) düşünce özeti ayrı gelir
+// Sağlayıcı hatalarının türü; arayüzdeki açıklama ve otomatik yeniden deneme buna göre seçilir
+export type ErrorKind = 'auth' | 'rate-limit' | 'quota' | 'network' | 'overloaded' | 'safety' | 'context-length' | 'unknown';
+
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'thought'; text: string }
+  | { type: 'part'; part: MessagePart } // Metin dışı parçalar (görsel, kod, kod çıktısı)
+  | { type: 'usage'; usage: TokenUsage; model?: string } // Genelde son parçada gelir
+  | { type: 'tool-call'; step: ToolStep }
+  | { type: 'tool-result'; step: ToolStep }
+  | { type: 'finish'; reason: FinishReason; safetyRatings?: SafetyRating[] } // Son turun bitiş sebebi
+  | { type: 'retry'; attempt: number; maxAttempts: number; delayMs: number; kind: ErrorKind }; // Geçici hata, bekleyip tekrar deneniyor
+
+// Arka plan isteklerinin (başlık, özet) kullanımı bununla bildirilir; kayıt ve bütçe cevaplarınkiyle aynıdır
+export type UsageListener = (usage: TokenUsage, model?: string) => void;
+
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  generateContentStream: (request: GenerationRequest) => AsyncGenerator<StreamEvent, void, unknown>;
+  listModels?: (settings: ProviderSettings) => Promise<string[]>;
+}
+
+// Arama indeksi belgesi: başlık, mesaj metni veya metin tabanlı ek adı
+export interface SearchDoc {
+  id: string;
+  sessionId: string;
+  messageId?: string;
+  kind: 'title' | 'message' | 'attachment';
+  text: string;
+  terms: string[]; // Normalize edilmiş kelimeler (multiEntry index)
+}
+
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId?: string;
+  kind: SearchDoc['kind'];
+  text: string;
+}
+
+// Dışa aktarılan yedek dosyası (sürümlü, ekler base64 olarak dahil)
+export interface BackupFile {
+  format: string;
+  version: number;
+  exportedAt: number;
+  sessions: BackupSession[];
+}
+
+export type BackupSession = Omit<ChatSession, 'messages'> & {
+  messages: (Omit<Message, 'attachments'> & { attachments?: InlineAttachment[] })[];
+};
+
+export type ImportStrategy = 'keep-both' | 'merge';
+export type ExportFormat = 'json' | 'markdown';
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string; // {{date}}, {{time}}, {{model}} gibi şablon değişkenleri içerebilir
+  defaults?: Partial<GeminiConfig>; // Bu persona ile başlayan sohbetlerin varsayılan ayarları
+  greeting?: string;
+  isBuiltIn?: boolean; // Yerleşik personalar silinemez (düzenlenebilir)
+  createdAt: number;
+}
+
+// Sekmeler arası değişiklik bildirimi (BroadcastChannel); alan sekme değişeni veritabanından yeniden okur
+export type SyncMessage =
+  | { type: 'session-changed'; sessionId: string }
+  | { type: 'session-deleted'; sessionId: string }
+  | { type: 'folders-changed' }
+  | { type: 'vault-changed' }; // Şifreleme açıldı ya da parola değişti; diğer sekmeler kilitlenir
+
+// --- ŞİFRELEME ---
+
+// AES-GCM ile şifrelenmiş içerik; keyId şifreleyen veri anahtarıdır (parola değişiminde eski ve yeni anahtar bir arada bulunur)
+export interface Sealed {
+  keyId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Parolayla türetilen anahtarla sarılmış rastgele veri anahtarı
+export interface WrappedKey {
+  id: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export interface VaultConfig {
+  salt: Uint8Array;
+  iterations: number;
+  keys: WrappedKey[]; // Normalde tek anahtar; yeniden şifreleme sürerken eski anahtar da durur
+  currentKeyId: string;
+  autoLockMinutes: number; // 0: otomatik kilit kapalı
+  resealPending?: boolean; // Kayıtların şifrelenmesi / yeniden şifrelenmesi yarıda kaldıysa kilit açılınca sürdürülür
+}
+
+// Şifreli kayıtlarda sadece anahtarlar, sıralama ve senkronizasyon için gereken alanlar açık kalır
+export type SealedSessionMeta = Pick<SessionMeta, 'id' | 'revision' | 'writtenBy' | 'streamingMessageId' | 'folderId'> & { sealed: Sealed };
+export type SealedMessage = Pick<StoredMessage, 'sessionId' | 'order' | 'id'> & {
+  attachmentHashes: string[]; // Eklerin depo anahtarları; ek çöp toplaması mesajları çözmeden çalışsın diye
+  sealed: Sealed;
+};
+// Terimler veri anahtarıyla HMAC'lenmiş öneklerdir; arama sorgusu da aynı şekilde HMAC'lenir
+export type SealedSearchDoc = Pick<SearchDoc, 'id' | 'sessionId' | 'terms'> & { sealed: Sealed };
+// hash burada içerik özeti değil, özetin veri anahtarıyla HMAC'idir
+export type SealedAttachmentBlob = Pick<AttachmentBlob, 'hash' | 'createdAt'> & { sealed: Sealed };
+export type SealedFolder = Pick<Folder, 'id'> & { sealed: Sealed };
+export type SealedPersona = Pick<Persona, 'id'> & { sealed: Sealed };
+export type SealedSettings = { sealed: Sealed };
+export type SealedUsageEntry = Pick<UsageEntry, 'id' | 'timestamp'> & { sealed: Sealed };
+
+// Depolardaki kayıtlar: şifreleme kapalıysa (ya da taşıma sürerken) açık, değilse şifreli
+export type SessionRecord = SessionMeta | SealedSessionMeta;
+export type MessageRecord = StoredMessage | SealedMessage;
+export type SearchRecord = SearchDoc | SealedSearchDoc;
+export type AttachmentRecord = AttachmentBlob | SealedAttachmentBlob;
+export type FolderRecord = Folder | SealedFolder;
+export type PersonaRecord = Persona | SealedPersona;
+export type SettingsRecord = AppSettings | SealedSettings;
+export type UsageRecord = UsageEntry | SealedUsageEntry;
+
+export interface VaultState {
+  enabled: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+}